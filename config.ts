@@ -14,6 +14,10 @@ const domainsByEnv: Record<AppEnv, DomainConfig> = {
   staging: {
     hqAdmin: 'https://staging.personalisationhub.com',
   },
+  // Served by mock-server/, started from Playwright's global setup
+  mock: {
+    hqAdmin: 'http://localhost:8088',
+  },
 }
 
 export const domain = domainsByEnv[env.APP_ENV]
@@ -22,10 +26,163 @@ export const app = {
   hqAdmin: `${domain.hqAdmin}/hq-admin`,
 }
 
-export const authFile = {
-  hqAdmin: `playwright/.auth/hq-admin-user-${env.APP_ENV}.json`,
+export const api = {
+  hqAdmin: `${domain.hqAdmin}/api`,
+}
+
+// Whether the paths and response shapes of HqAdminApiClient, taken from mock-server/, were checked
+// against the environment with pnpm check:api-schemas on a recording of it. Until then campaigns
+// are set up and cleaned up through the UI, and generation jobs are followed through the UI
+const apiCheckedByEnv: Record<AppEnv, boolean> = {
+  local: false,
+  dev: false,
+  staging: false,
+  mock: true,
+}
+
+export const apiChecked = apiCheckedByEnv[env.APP_ENV]
+
+// Replays log in with a recorded placeholder token, keep it away from live sessions
+const authFileSuffix = env.NETWORK_MODE === 'replay' ? '-replay' : ''
+
+export const roles = ['admin', 'viewer', 'secondTenant'] as const
+
+export type Role = (typeof roles)[number]
+
+export type Credentials = {
+  email: string
+  password: string
+}
+
+const toCredentials = (email?: string, password?: string): Credentials | undefined => {
+  return email && password ? { email, password } : undefined
+}
+
+/**
+ * Login per role, undefined for roles this environment has no user for
+ */
+export const credentials: { hqAdmin: Record<Role, Credentials | undefined> } = {
+  hqAdmin: {
+    admin: toCredentials(env.HQ_ADMIN_AUTH_EMAIL, env.HQ_ADMIN_AUTH_PASSWORD),
+    viewer: toCredentials(env.HQ_ADMIN_VIEWER_AUTH_EMAIL, env.HQ_ADMIN_VIEWER_AUTH_PASSWORD),
+    secondTenant: toCredentials(
+      env.HQ_ADMIN_SECOND_TENANT_AUTH_EMAIL,
+      env.HQ_ADMIN_SECOND_TENANT_AUTH_PASSWORD
+    ),
+  },
+}
+
+/**
+ * Saved login state per role
+ */
+export const authFile: { hqAdmin: Record<Role, string> } = {
+  hqAdmin: {
+    admin: `playwright/.auth/hq-admin-user-${env.APP_ENV}${authFileSuffix}.json`,
+    viewer: `playwright/.auth/hq-admin-viewer-${env.APP_ENV}${authFileSuffix}.json`,
+    secondTenant: `playwright/.auth/hq-admin-second-tenant-${env.APP_ENV}${authFileSuffix}.json`,
+  },
+}
+
+/**
+ * Features that ship in some HQ Admin releases but not others, specs opt in with requires()
+ */
+export const capabilities = [
+  // Add / delete variant buttons of the headline
+  'headlineVariants',
+  // Add / delete variant buttons of sub headline, body copy and CTA copy
+  'copyVariants',
+  // Add Token button of the copy fields
+  'copyTokens',
+  // Configure Styles modal and the style settings of previews
+  'styleSettings',
+  // More than one preview variant, browsed in a carousel
+  'previewCarousel',
+] as const
+
+export type Capability = (typeof capabilities)[number]
+
+// Used when the deployed HQ Admin has no /api/version endpoint to report its capabilities
+const capabilitiesByEnv: Record<AppEnv, Capability[]> = {
+  // R4.2 hides variants, tokens, style settings and the carousel
+  local: [],
+  dev: [],
+  staging: [],
+  // What mock-server/public/app.js implements, the mock's version endpoint reports the same
+  mock: ['styleSettings'],
+}
+
+export const capabilityManifest = capabilitiesByEnv[env.APP_ENV]
+
+export type GenerationKind = 'storyboard' | 'preview'
+
+export type GenerationBudget = {
+  // Longest a job may run before tests give up on it
+  timeoutMs: number
+  // Longest a job may go without its status or progress changing
+  stallMs: number
+}
+
+// AI generation is slower on shared environments, video previews most of all
+const generationBudgetsByEnv: Record<AppEnv, Record<GenerationKind, GenerationBudget>> = {
+  local: {
+    storyboard: { timeoutMs: 120000, stallMs: 60000 },
+    preview: { timeoutMs: 300000, stallMs: 120000 },
+  },
+  dev: {
+    storyboard: { timeoutMs: 120000, stallMs: 60000 },
+    preview: { timeoutMs: 300000, stallMs: 120000 },
+  },
+  staging: {
+    storyboard: { timeoutMs: 180000, stallMs: 90000 },
+    preview: { timeoutMs: 600000, stallMs: 180000 },
+  },
+  mock: {
+    storyboard: { timeoutMs: 30000, stallMs: 15000 },
+    preview: { timeoutMs: 30000, stallMs: 15000 },
+  },
+}
+
+export const generationBudgets = generationBudgetsByEnv[env.APP_ENV]
+
+/**
+ * Page object navigations the performance fixture measures
+ */
+export type MeasuredPage = 'campaignsTable' | 'storyboard'
+
+export type PerformanceBudget = {
+  // From starting the navigation until the page object finds the page loaded
+  durationMs: number
+  // Largest Contentful Paint of the document the navigation loaded
+  lcpMs: number
+  // Main thread time spent in tasks over 50ms
+  longTasksMs: number
+  // HQ Admin API requests the navigation made, and the bytes they received
+  apiRequests: number
+  apiBytes: number
+}
+
+// The storyboard tab loads the campaign details page first, so it gets the table's budget and more
+const performanceBudgetsByEnv: Record<AppEnv, Record<MeasuredPage, PerformanceBudget>> = {
+  local: {
+    campaignsTable: { durationMs: 5000, lcpMs: 2500, longTasksMs: 500, apiRequests: 10, apiBytes: 500000 },
+    storyboard: { durationMs: 8000, lcpMs: 2500, longTasksMs: 800, apiRequests: 15, apiBytes: 1000000 },
+  },
+  dev: {
+    campaignsTable: { durationMs: 8000, lcpMs: 4000, longTasksMs: 800, apiRequests: 10, apiBytes: 500000 },
+    storyboard: { durationMs: 12000, lcpMs: 4000, longTasksMs: 1200, apiRequests: 15, apiBytes: 1000000 },
+  },
+  staging: {
+    campaignsTable: { durationMs: 8000, lcpMs: 4000, longTasksMs: 800, apiRequests: 10, apiBytes: 500000 },
+    storyboard: { durationMs: 12000, lcpMs: 4000, longTasksMs: 1200, apiRequests: 15, apiBytes: 1000000 },
+  },
+  mock: {
+    campaignsTable: { durationMs: 5000, lcpMs: 2500, longTasksMs: 500, apiRequests: 5, apiBytes: 100000 },
+    storyboard: { durationMs: 8000, lcpMs: 2500, longTasksMs: 800, apiRequests: 10, apiBytes: 100000 },
+  },
 }
 
+export const performanceBudgets = performanceBudgetsByEnv[env.APP_ENV]
+
 export function getAppConfig() {
   return app
 }
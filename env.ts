@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { config } from 'dotenv'
+import { randomBytes } from 'crypto'
 
 // Load env files before validation (suppress dotenv logs)
 if (process.env.NODE_ENV !== 'production') {
@@ -10,11 +11,20 @@ if (process.env.NODE_ENV !== 'production') {
   console.log = originalLog
 }
 
-const appEnvEnum = z.enum(['local', 'dev', 'staging'])
+// Unset and empty values both mean the role is not configured
+const optionalEmail = (name: string) => {
+  return z.string().email(`${name} must be a valid email address`).or(z.literal('')).optional()
+}
+
+const appEnvEnum = z.enum(['local', 'dev', 'staging', 'mock'])
+const networkModeEnum = z.enum(['record', 'replay', 'live'])
 
 const envSchema = z.object({
-  APP_ENV: appEnvEnum.default('local').describe('Application environment (local, dev, staging)'),
+  APP_ENV: appEnvEnum.default('local').describe('Application environment (local, dev, staging, mock)'),
   NODE_ENV: z.string().optional().describe('Node environment'),
+  NETWORK_MODE: networkModeEnum
+    .default('live')
+    .describe('Record HQ Admin API traffic to HAR files, replay it from them, or hit the live API'),
 
   HQ_ADMIN_AUTH_EMAIL: z
     .string()
@@ -26,20 +36,111 @@ const envSchema = z.object({
     .min(1, 'HQ_ADMIN_AUTH_PASSWORD is required')
     .describe('HQ Admin authentication password'),
 
-  // Optional: Campaign ID for running tests against a specific campaign
+  // Optional: Further roles, tests asking for a role without credentials are skipped
+  HQ_ADMIN_VIEWER_AUTH_EMAIL: optionalEmail('HQ_ADMIN_VIEWER_AUTH_EMAIL').describe(
+    'HQ Admin read-only viewer authentication email'
+  ),
+  HQ_ADMIN_VIEWER_AUTH_PASSWORD: z
+    .string()
+    .optional()
+    .describe('HQ Admin read-only viewer authentication password'),
+  HQ_ADMIN_SECOND_TENANT_AUTH_EMAIL: optionalEmail('HQ_ADMIN_SECOND_TENANT_AUTH_EMAIL').describe(
+    'Authentication email of an HQ Admin user in another tenant'
+  ),
+  HQ_ADMIN_SECOND_TENANT_AUTH_PASSWORD: z
+    .string()
+    .optional()
+    .describe('Authentication password of an HQ Admin user in another tenant'),
+
+  // Optional: Log in again when the saved token expires within this margin
+  HQ_ADMIN_TOKEN_REFRESH_MARGIN_MS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(5 * 60 * 1000)
+    .describe('Milliseconds before its expiry at which a saved HQ Admin token is refreshed'),
+
+  // Optional: Override the campaigns provisioned by the campaign fixture
   TEST_CAMPAIGN_ID: z
     .string()
     .optional()
-    .describe('Campaign ID for running storyboard & copy tests against a specific campaign'),
+    .describe('Existing campaign ID to run storyboard & copy tests against instead of provisioning one'),
+
+  // Optional: Tags the campaigns of a run, generated unless set
+  TEST_RUN_TAG: z
+    .string()
+    .regex(/^[0-9a-f]{8}$/, 'TEST_RUN_TAG must be 8 lowercase hex characters')
+    .default(() => {
+      return randomBytes(4).toString('hex')
+    })
+    .describe('Run tag appended to the names of campaigns the suite creates'),
+
+  // Optional: Which leftover campaigns the janitor deletes, and whether it only reports them
+  JANITOR_MAX_AGE_HOURS: z.coerce
+    .number()
+    .min(0)
+    .default(24)
+    .describe('Hours after which campaigns of other runs count as orphaned'),
+  JANITOR_DRY_RUN: z
+    .stringbool()
+    .default(false)
+    .describe('List orphaned campaigns without deleting them'),
+
+  // Optional: Copy fuzzing, the seed is generated unless set, set it to replay a failure
+  FUZZ_SEED: z.coerce
+    .number()
+    .int()
+    .default(() => {
+      return randomBytes(4).readInt32LE()
+    })
+    .describe('Seed the copy fuzzing test generates its text from'),
+  FUZZ_RUNS: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(10)
+    .describe('Save and reload round trips the copy fuzzing test runs'),
+
+  // Optional: Fail a run with more precondition skips than this, no limit when unset
+  MAX_PRECONDITION_SKIPS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Most tests a passing run may skip because a precondition was not met'),
+
+  // Optional: How long AI generation takes on the mock server (APP_ENV=mock only)
+  MOCK_GENERATION_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(3000)
+    .describe('Milliseconds the mock server takes to generate a storyboard or preview'),
 })
 
 const parseEnv = () => {
   const result = envSchema.safeParse({
     APP_ENV: process.env.APP_ENV,
     NODE_ENV: process.env.NODE_ENV,
+    NETWORK_MODE: process.env.NETWORK_MODE,
     HQ_ADMIN_AUTH_EMAIL: process.env.HQ_ADMIN_AUTH_EMAIL,
     HQ_ADMIN_AUTH_PASSWORD: process.env.HQ_ADMIN_AUTH_PASSWORD,
+    HQ_ADMIN_VIEWER_AUTH_EMAIL: process.env.HQ_ADMIN_VIEWER_AUTH_EMAIL,
+    HQ_ADMIN_VIEWER_AUTH_PASSWORD: process.env.HQ_ADMIN_VIEWER_AUTH_PASSWORD,
+    HQ_ADMIN_SECOND_TENANT_AUTH_EMAIL: process.env.HQ_ADMIN_SECOND_TENANT_AUTH_EMAIL,
+    HQ_ADMIN_SECOND_TENANT_AUTH_PASSWORD: process.env.HQ_ADMIN_SECOND_TENANT_AUTH_PASSWORD,
+    HQ_ADMIN_TOKEN_REFRESH_MARGIN_MS: process.env.HQ_ADMIN_TOKEN_REFRESH_MARGIN_MS,
     TEST_CAMPAIGN_ID: process.env.TEST_CAMPAIGN_ID,
+    // Empty in .env means generate one
+    TEST_RUN_TAG: process.env.TEST_RUN_TAG || undefined,
+    JANITOR_MAX_AGE_HOURS: process.env.JANITOR_MAX_AGE_HOURS,
+    JANITOR_DRY_RUN: process.env.JANITOR_DRY_RUN,
+    // Empty in .env means generate one
+    FUZZ_SEED: process.env.FUZZ_SEED || undefined,
+    FUZZ_RUNS: process.env.FUZZ_RUNS,
+    // Empty in .env means no limit
+    MAX_PRECONDITION_SKIPS: process.env.MAX_PRECONDITION_SKIPS || undefined,
+    MOCK_GENERATION_DELAY_MS: process.env.MOCK_GENERATION_DELAY_MS,
   })
 
   if (result.success === false) {
@@ -62,5 +163,11 @@ const parseEnv = () => {
 
 export const env = parseEnv()
 
+// Workers inherit the runner's environment, so the whole run shares one tag
+process.env.TEST_RUN_TAG = env.TEST_RUN_TAG
+// And one fuzzing seed, retries replay the same text
+process.env.FUZZ_SEED = String(env.FUZZ_SEED)
+
 export type Env = z.infer<typeof envSchema>
 export type AppEnv = z.infer<typeof appEnvEnum>
+export type NetworkMode = z.infer<typeof networkModeEnum>
@@ -0,0 +1,18 @@
+import { capabilityManifest, domain } from '../config'
+import { env } from '../env'
+import { startMockServer } from './server'
+
+/**
+ * Start the HQ Admin stand-in for APP_ENV=mock and stop it after the run
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  const server = await startMockServer(Number(new URL(domain.hqAdmin).port), {
+    generationDelayMs: env.MOCK_GENERATION_DELAY_MS,
+    tokenTtlSeconds: 24 * 60 * 60,
+    capabilities: capabilityManifest,
+  })
+
+  return async () => {
+    await server.close()
+  }
+}
@@ -0,0 +1,1113 @@
+/**
+ * Minimal HQ Admin stand-in for APP_ENV=mock.
+ *
+ * Renders just enough AntD-shaped markup for the page objects under tests/hq-admin,
+ * talking to the mock API in ../server.ts.
+ */
+;(() => {
+  const BASE = '/hq-admin'
+  const TOKEN_KEY = 'hq-admin.auth-token'
+  const CAMPAIGN_AI_FLAG = 'hq-admin.campaignAi'
+  const POLL_INTERVAL = 1000
+  const ALLOWED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'application/pdf']
+  const ORIENTATIONS = ['portrait', 'landscape']
+  const PREVIEW_SIZES = { portrait: [270, 480], landscape: [480, 270] }
+
+  const COPY_SECTIONS = [
+    { key: 'headline', testId: 'headline', title: 'HEADLINE', label: 'Headline', multiline: false },
+    { key: 'subHeadline', testId: 'sub-headline', title: 'SUB HEADLINE', label: 'Sub Headline', multiline: false },
+    { key: 'bodyCopy', testId: 'body-copy', title: 'BODY COPY', label: 'Body Copy', multiline: true },
+    { key: 'ctaCopy', testId: 'cta-copy', title: 'CTA COPY', label: 'CTA Copy', multiline: false },
+  ]
+
+  const STYLE_SECTIONS = [
+    { key: 'headline', title: 'Headline', copy: (s) => s.headline.default },
+    { key: 'sub-headline', title: 'Sub Headline', copy: (s) => s.subHeadline.default },
+    { key: 'body-copy', title: 'Body Copy', copy: (s) => s.bodyCopy.default },
+    { key: 'cta-copy', title: 'CTA Copy', copy: (s) => s.ctaCopy.default },
+    { key: 'legal-copy', title: 'Legal Copy', copy: (s) => s.legalCopy },
+  ]
+
+  const SELECT_OPTIONS = {
+    textAlign: ['left', 'center', 'right'],
+    appearAnimation: ['None', 'Fade In', 'Zoom In', 'Slide In'],
+    exitAnimation: ['None', 'Fade Out', 'Zoom Out', 'Slide Out'],
+  }
+
+  const root = document.getElementById('root')
+
+  // ==================== Helpers ====================
+
+  const escapeHtml = (value) => {
+    return String(value ?? '').replace(/[&<>"']/g, (char) => {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]
+    })
+  }
+
+  const capitalize = (value) => {
+    return value.charAt(0).toUpperCase() + value.slice(1)
+  }
+
+  const getToken = () => {
+    return localStorage.getItem(TOKEN_KEY)
+  }
+
+  // Storyboard & Copy is behind a feature flag, like in the real app
+  const isCampaignAiEnabled = () => {
+    return localStorage.getItem(CAMPAIGN_AI_FLAG) === 'true'
+  }
+
+  /**
+   * Client-side navigation, like the real SPA, so in-flight responses are not discarded
+   */
+  const navigate = (path, { replace = false } = {}) => {
+    if (replace) {
+      history.replaceState(null, '', path)
+    } else {
+      history.pushState(null, '', path)
+    }
+    route()
+  }
+
+  const redirectToLogin = () => {
+    localStorage.removeItem(TOKEN_KEY)
+    location.href = `${BASE}/login`
+  }
+
+  async function request(method, path, body) {
+    const headers = { Authorization: `Bearer ${getToken()}` }
+    let payload
+    if (body instanceof FormData) {
+      payload = body
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+      payload = JSON.stringify(body)
+    }
+
+    const response = await fetch(`/api/${path}`, { method, headers, body: payload })
+    if (response.status === 401) {
+      redirectToLogin()
+      throw new Error('Unauthorized')
+    }
+
+    const data = response.status === 204 ? null : await response.json()
+    if (!response.ok) {
+      throw Object.assign(new Error(data?.message ?? 'Request failed'), { status: response.status })
+    }
+    return data
+  }
+
+  function showMessage(type, text) {
+    let container = document.querySelector('.ant-message')
+    if (!container) {
+      container = document.createElement('div')
+      container.className = 'ant-message'
+      document.body.append(container)
+    }
+
+    const notice = document.createElement('div')
+    notice.className = 'ant-message-notice'
+    notice.innerHTML = `<div class="ant-message-notice-content"><div class="ant-message-custom-content ant-message-${type}" role="status"><span>${escapeHtml(text)}</span></div></div>`
+    container.append(notice)
+    setTimeout(() => {
+      notice.remove()
+    }, 3000)
+  }
+
+  let modalCount = 0
+
+  function openModal({ title, body, footer }) {
+    const titleId = `modal-title-${++modalCount}`
+    const element = document.createElement('div')
+    element.className = 'ant-modal-root'
+    element.innerHTML = `
+      <div class="ant-modal-mask"></div>
+      <div class="ant-modal-wrap">
+        <div role="dialog" aria-modal="true" aria-labelledby="${titleId}" class="ant-modal">
+          <div class="ant-modal-content">
+            <button type="button" aria-label="Close" class="ant-modal-close"><span class="ant-modal-close-x">&times;</span></button>
+            <div class="ant-modal-header"><div class="ant-modal-title" id="${titleId}">${escapeHtml(title)}</div></div>
+            <div class="ant-modal-body">${body}</div>
+            <div class="ant-modal-footer">${footer}</div>
+          </div>
+        </div>
+      </div>`
+    document.body.append(element)
+
+    const close = () => {
+      element.remove()
+    }
+    element.querySelector('.ant-modal-close').addEventListener('click', close)
+    return { element, close }
+  }
+
+  const spinnerIcon = '<span class="ant-btn-loading-icon" aria-hidden="true"></span>'
+
+  const collapse = ({ testId, title, expanded, content }) => {
+    return `
+      <div class="ant-collapse ant-collapse-icon-position-start" data-testid="${testId}-section">
+        <div class="ant-collapse-item${expanded ? ' ant-collapse-item-active' : ''}">
+          <div class="ant-collapse-header" role="button" tabindex="0" aria-expanded="${expanded}">
+            <div class="ant-collapse-expand-icon"><span role="img" aria-label="${expanded ? 'expanded' : 'collapsed'}" class="anticon anticon-right">&#9656;</span></div>
+            <span class="ant-collapse-header-text">${escapeHtml(title)}</span>
+          </div>
+          <div class="ant-collapse-content ${expanded ? 'ant-collapse-content-active' : 'ant-collapse-content-inactive ant-collapse-content-hidden'}">
+            <div class="ant-collapse-content-box">${content}</div>
+          </div>
+        </div>
+      </div>`
+  }
+
+  /**
+   * Toggle an .ant-collapse-item in place, returning whether it is now expanded
+   */
+  function toggleCollapse(header) {
+    const item = header.closest('.ant-collapse-item')
+    const expanded = !item.classList.contains('ant-collapse-item-active')
+    item.classList.toggle('ant-collapse-item-active', expanded)
+    header.setAttribute('aria-expanded', String(expanded))
+    header.querySelector('[role="img"]').setAttribute('aria-label', expanded ? 'expanded' : 'collapsed')
+
+    const content = item.querySelector('.ant-collapse-content')
+    content.classList.toggle('ant-collapse-content-active', expanded)
+    content.classList.toggle('ant-collapse-content-inactive', !expanded)
+    content.classList.toggle('ant-collapse-content-hidden', !expanded)
+    return expanded
+  }
+
+  const formItem = (id, label, control) => {
+    return `
+      <div class="ant-form-item">
+        <div class="ant-form-item-row">
+          <div class="ant-form-item-label"><label for="${id}">${escapeHtml(label)}</label></div>
+          <div class="ant-form-item-control"><div class="ant-form-item-control-input">${control}</div></div>
+        </div>
+      </div>`
+  }
+
+  function renderLayout(content) {
+    root.innerHTML = `
+      <div class="ant-layout">
+        <aside class="ant-layout-sider">
+          <div class="logo">HQ Admin</div>
+          <ul class="ant-menu ant-menu-dark">
+            <li class="ant-menu-item"><a href="${BASE}/">Stores / Branches</a></li>
+            <li class="ant-menu-item"><a href="${BASE}/campaigns">Campaigns</a></li>
+          </ul>
+        </aside>
+        <main class="ant-layout-content">${content}</main>
+      </div>`
+    return root.querySelector('main')
+  }
+
+  // ==================== Login ====================
+
+  function renderLogin() {
+    root.innerHTML = `
+      <div class="login-page">
+        <form class="ant-form ant-form-vertical login-form" novalidate>
+          <h1>HQ Admin</h1>
+          ${formItem('login-email', 'Email', '<input id="login-email" name="email" type="email" class="ant-input" autocomplete="username">')}
+          ${formItem('login-password', 'Password', '<input id="login-password" name="password" type="password" class="ant-input" autocomplete="current-password">')}
+          <div class="ant-form-item-explain-error" role="alert" hidden></div>
+          <button type="submit" class="ant-btn ant-btn-primary ant-btn-block">Login</button>
+        </form>
+      </div>`
+
+    const form = root.querySelector('form')
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault()
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: form.email.value, password: form.password.value }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        const error = form.querySelector('[role="alert"]')
+        error.textContent = data.message
+        error.hidden = false
+        return
+      }
+      localStorage.setItem(TOKEN_KEY, data.accessToken)
+      navigate(`${BASE}/`)
+    })
+  }
+
+  // ==================== Home ====================
+
+  function renderHome() {
+    renderLayout(`
+      <div class="page-header"><h1>Welcome to HQ Admin</h1></div>
+      <p>Pick a section from the menu.</p>`)
+  }
+
+  // ==================== Campaigns table ====================
+
+  async function renderCampaignTable() {
+    const main = renderLayout(`
+      <div class="page-header">
+        <h1>Campaigns</h1>
+        <div class="ant-space">
+          <button type="button" class="ant-btn ant-btn-dangerous" data-action="delete-selected" disabled>Delete Selected Campaigns</button>
+          <button type="button" class="ant-btn ant-btn-primary" data-action="launch">Launch a New Campaign</button>
+        </div>
+      </div>
+      <div class="ant-table-wrapper">
+        <div class="ant-table">
+          <table role="grid">
+            <thead class="ant-table-thead">
+              <tr>
+                <th class="ant-table-cell ant-table-selection-column"></th>
+                <th class="ant-table-cell">
+                  <div>Name</div>
+                  <input type="text" class="ant-input ant-input-sm" placeholder="Search name">
+                </th>
+                <th class="ant-table-cell">Storyboard</th>
+                <th class="ant-table-cell">Created At</th>
+              </tr>
+            </thead>
+            <tbody class="ant-table-tbody"></tbody>
+          </table>
+        </div>
+      </div>`)
+
+    const tbody = main.querySelector('tbody')
+    const deleteButton = main.querySelector('[data-action="delete-selected"]')
+    const selected = new Map()
+    let query = ''
+
+    const renderSelection = () => {
+      for (const row of tbody.querySelectorAll('tr[data-row-key]')) {
+        const isSelected = selected.has(Number(row.dataset.rowKey))
+        row.classList.toggle('ant-table-row-selected', isSelected)
+        row.querySelector('button').setAttribute('aria-pressed', String(isSelected))
+      }
+      deleteButton.disabled = selected.size === 0
+    }
+
+    const load = async () => {
+      const params = new URLSearchParams({ name: query, pageSize: '50' })
+      const { items } = await request('GET', `campaigns?${params}`)
+      selected.clear()
+      tbody.innerHTML = items.length
+        ? items
+            .map((campaign) => {
+              return `
+                <tr class="ant-table-row" data-row-key="${campaign.id}">
+                  <td class="ant-table-cell ant-table-selection-column">
+                    <button type="button" class="ant-btn ant-btn-text ant-btn-sm" aria-label="Select ${escapeHtml(campaign.name)}" aria-pressed="false"><span class="ant-checkbox-inner"></span></button>
+                  </td>
+                  <td class="ant-table-cell"><a href="${BASE}/campaigns/details/${campaign.id}/campaign-details">${escapeHtml(campaign.name)}</a></td>
+                  <td class="ant-table-cell">${escapeHtml(campaign.storyboardStatus)}</td>
+                  <td class="ant-table-cell">${new Date(campaign.createdAt).toLocaleDateString()}</td>
+                </tr>`
+            })
+            .join('')
+        : '<tr class="ant-table-placeholder"><td class="ant-table-cell" colspan="4"><div class="ant-empty ant-empty-normal"><div class="ant-empty-description">No data</div></div></td></tr>'
+
+      for (const campaign of items) {
+        const row = tbody.querySelector(`tr[data-row-key="${campaign.id}"]`)
+        row.querySelector('button').addEventListener('click', () => {
+          if (selected.has(campaign.id)) {
+            selected.delete(campaign.id)
+          } else {
+            selected.set(campaign.id, campaign)
+          }
+          renderSelection()
+        })
+      }
+      renderSelection()
+    }
+
+    main.querySelector('input[placeholder="Search name"]').addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        query = event.target.value.trim()
+        load()
+      }
+    })
+
+    main.querySelector('[data-action="launch"]').addEventListener('click', () => {
+      const modal = openModal({
+        title: 'Launch a New Campaign',
+        body: `
+          <p>Describe your campaign and let AI draft the brief for you.</p>
+          <textarea class="ant-input" rows="4" aria-label="Campaign description" placeholder="Describe your campaign"></textarea>
+          <p>Prefer to fill in the brief yourself? <a href="${BASE}/campaigns/details/create">click here</a></p>`,
+        footer: `
+          <button type="button" class="ant-btn" data-action="cancel">Cancel</button>
+          <button type="button" class="ant-btn ant-btn-primary" disabled>Launch</button>`,
+      })
+      modal.element.querySelector('[data-action="cancel"]').addEventListener('click', modal.close)
+    })
+
+    deleteButton.addEventListener('click', () => {
+      const campaigns = [...selected.values()]
+      const names = campaigns
+        .map((campaign) => {
+          return `"${escapeHtml(campaign.name)}"`
+        })
+        .join(', ')
+      const modal = openModal({
+        title: 'Delete Campaigns',
+        body: `<p>You are about to delete the campaign${campaigns.length > 1 ? 's' : ''} ${names}. This cannot be undone.</p>`,
+        footer: `
+          <button type="button" class="ant-btn" data-action="cancel">Cancel</button>
+          <button type="button" class="ant-btn ant-btn-primary ant-btn-dangerous" data-action="confirm">Delete</button>`,
+      })
+      modal.element.querySelector('[data-action="cancel"]').addEventListener('click', modal.close)
+      modal.element.querySelector('[data-action="confirm"]').addEventListener('click', async () => {
+        for (const campaign of campaigns) {
+          await request('DELETE', `campaigns/${campaign.id}`)
+        }
+        modal.close()
+        showMessage('success', campaigns.length > 1 ? 'Campaigns deleted successfully' : 'Campaign deleted successfully')
+        await load()
+      })
+    })
+
+    await load()
+  }
+
+  // ==================== Campaign details ====================
+
+  async function renderCampaignDetails(campaignId) {
+    let campaign = null
+    if (campaignId !== null) {
+      try {
+        campaign = await request('GET', `campaigns/${campaignId}`)
+      } catch (error) {
+        if (error.status === 404) {
+          navigate(`${BASE}/campaigns/details/create`, { replace: true })
+          return
+        }
+        throw error
+      }
+    }
+
+    const main = renderLayout(`
+      <div class="page-header"><h1>${campaign ? escapeHtml(campaign.name) : 'New Campaign'}</h1></div>
+      <div class="ant-tabs ant-tabs-top">
+        <div class="ant-tabs-nav" role="tablist"><div class="ant-tabs-nav-list"></div></div>
+        <div class="ant-tabs-content-holder">
+          <div class="ant-tabs-tabpane" data-pane="details" role="tabpanel">
+            <form class="ant-form ant-form-vertical" id="campaign-brief-form" novalidate>
+              ${formItem('campaign-name', 'Campaign Name', `<input id="campaign-name" class="ant-input" value="${escapeHtml(campaign?.name)}">`)}
+              <div class="form-actions">
+                <button type="submit" class="ant-btn ant-btn-primary" data-action="update-brief" disabled>Update Campaign Brief</button>
+                <button type="button" class="ant-btn" data-action="generate-storyboard" disabled></button>
+              </div>
+              <div class="ant-alert ant-alert-error" data-testid="storyboard-generation-error" role="alert" hidden>
+                <div class="ant-alert-content">
+                  <div class="ant-alert-message">Storyboard &amp; Copy generation failed</div>
+                  <div class="ant-alert-description"></div>
+                </div>
+                <button type="button" class="ant-btn ant-btn-sm" data-action="retry-storyboard">Retry</button>
+              </div>
+            </form>
+          </div>
+          <div class="ant-tabs-tabpane" data-pane="storyboard" role="tabpanel" hidden></div>
+        </div>
+      </div>`)
+
+    const navList = main.querySelector('.ant-tabs-nav-list')
+    const briefForm = main.querySelector('#campaign-brief-form')
+    const nameInput = briefForm.querySelector('#campaign-name')
+    const updateButton = briefForm.querySelector('[data-action="update-brief"]')
+    const generateButton = briefForm.querySelector('[data-action="generate-storyboard"]')
+    const generationError = briefForm.querySelector('[data-testid="storyboard-generation-error"]')
+    const storyboardPane = main.querySelector('[data-pane="storyboard"]')
+    let activeTab = 'details'
+    let storyboardMounted = false
+
+    const renderTabs = () => {
+      const status = campaign?.storyboardStatus ?? 'none'
+      const generating = status === 'generating'
+      const tabs = [{ key: 'details', label: 'Campaign Details', disabled: false }]
+      if (isCampaignAiEnabled() && (status === 'generating' || status === 'completed')) {
+        tabs.push({
+          key: 'storyboard',
+          label: `${generating ? '<i class="fa fa-cog fa-spin" aria-hidden="true">&#9881;</i>' : ''}Storyboard &amp; Copy`,
+          disabled: generating,
+        })
+      }
+
+      navList.innerHTML = tabs
+        .map((tab) => {
+          const active = tab.key === activeTab
+          return `
+            <div class="ant-tabs-tab${active ? ' ant-tabs-tab-active' : ''}${tab.disabled ? ' ant-tabs-tab-disabled' : ''}" data-tab="${tab.key}">
+              <div role="tab" class="ant-tabs-tab-btn" aria-selected="${active}" aria-disabled="${tab.disabled}" tabindex="${tab.disabled ? -1 : 0}">${tab.label}</div>
+            </div>`
+        })
+        .join('')
+    }
+
+    const renderBriefActions = () => {
+      const generating = campaign?.storyboardStatus === 'generating'
+      const name = nameInput.value.trim()
+      updateButton.disabled = !name || name === campaign?.name
+      generateButton.hidden = !isCampaignAiEnabled()
+      generateButton.disabled = !campaign || generating
+      generateButton.classList.toggle('ant-btn-loading', generating)
+      generateButton.innerHTML = generating
+        ? `${spinnerIcon}<span>Generating Storyboard &amp; Copy</span>`
+        : '<span>Generate Storyboard &amp; Copy</span>'
+      generationError.hidden = !isCampaignAiEnabled() || campaign?.storyboardStatus !== 'failed'
+      generationError.querySelector('.ant-alert-description').textContent =
+        campaign?.storyboardError ?? 'Something went wrong, try again.'
+    }
+
+    const pollStoryboard = () => {
+      const timer = setInterval(async () => {
+        campaign = await request('GET', `campaigns/${campaign.id}`)
+        if (campaign.storyboardStatus === 'generating') {
+          return
+        }
+        clearInterval(timer)
+        renderTabs()
+        renderBriefActions()
+        if (campaign.storyboardStatus === 'failed') {
+          showMessage('error', 'Storyboard & Copy generation failed')
+        }
+      }, POLL_INTERVAL)
+    }
+
+    navList.addEventListener('click', (event) => {
+      const tab = event.target.closest('.ant-tabs-tab')
+      if (!tab || tab.classList.contains('ant-tabs-tab-disabled')) {
+        return
+      }
+      activeTab = tab.dataset.tab
+      renderTabs()
+      briefForm.parentElement.hidden = activeTab !== 'details'
+      storyboardPane.hidden = activeTab !== 'storyboard'
+      if (activeTab === 'storyboard' && !storyboardMounted) {
+        storyboardMounted = true
+        mountStoryboard(storyboardPane, campaign.id)
+      }
+    })
+
+    nameInput.addEventListener('input', renderBriefActions)
+
+    briefForm.addEventListener('submit', async (event) => {
+      event.preventDefault()
+      const name = nameInput.value.trim()
+      if (!campaign) {
+        const created = await request('POST', 'campaigns', { name })
+        navigate(`${BASE}/campaigns/details/${created.id}/campaign-details`)
+        return
+      }
+      campaign = await request('PATCH', `campaigns/${campaign.id}`, { name })
+      main.querySelector('h1').textContent = campaign.name
+      renderBriefActions()
+      showMessage('success', 'Campaign brief updated')
+    })
+
+    const generateStoryboard = async () => {
+      try {
+        await request('POST', `campaigns/${campaign.id}/storyboard/generate`)
+      } catch (error) {
+        // Rejected up front, e.g. for an incomplete brief, nothing to poll
+        showMessage('error', error.message)
+        return
+      }
+      campaign.storyboardStatus = 'generating'
+      renderTabs()
+      renderBriefActions()
+      pollStoryboard()
+    }
+
+    generateButton.addEventListener('click', generateStoryboard)
+    generationError.querySelector('[data-action="retry-storyboard"]').addEventListener('click', generateStoryboard)
+
+    renderTabs()
+    renderBriefActions()
+    if (campaign?.storyboardStatus === 'generating') {
+      pollStoryboard()
+    }
+  }
+
+  // ==================== Storyboard & Copy ====================
+
+  const toFormState = (storyboard) => {
+    return {
+      ...Object.fromEntries(
+        COPY_SECTIONS.map(({ key }) => {
+          return [key, { default: storyboard[key].default, variants: [...storyboard[key].variants] }]
+        })
+      ),
+      legalCopy: storyboard.legalCopy,
+      assets: storyboard.assets.map((asset) => {
+        return { ...asset, key: String(asset.id), status: 'done' }
+      }),
+    }
+  }
+
+  const toPayload = (state) => {
+    const { assets, ...copy } = state
+    return {
+      ...copy,
+      assetIds: assets
+        .filter((asset) => {
+          return asset.status === 'done'
+        })
+        .map((asset) => {
+          return asset.id
+        }),
+    }
+  }
+
+  async function mountStoryboard(pane, campaignId) {
+    let saved = toFormState(await request('GET', `campaigns/${campaignId}/storyboard`))
+    let draft = structuredClone(saved)
+    let uploadKey = 0
+    const expanded = {
+      headline: true,
+      'sub-headline': true,
+      'body-copy': false,
+      'cta-copy': false,
+      'legal-copy': true,
+      asset: false,
+    }
+
+    pane.innerHTML = `
+      <div class="storyboard-layout" hidden>
+        <form class="ant-form ant-form-vertical storyboard-form" data-testid="storyboard-form" novalidate>
+          <div data-sections></div>
+          <div class="form-footer">
+            <button type="button" class="ant-btn" data-testid="storyboard-cancel-btn">Cancel</button>
+            <button type="submit" class="ant-btn ant-btn-primary" data-testid="storyboard-save-btn" disabled>Save</button>
+          </div>
+        </form>
+        <div class="preview-panel"></div>
+      </div>`
+
+    const form = pane.querySelector('form')
+    const sections = form.querySelector('[data-sections]')
+    const saveButton = form.querySelector('[data-testid="storyboard-save-btn"]')
+    const previewPanel = createPreviewPanel(pane.querySelector('.preview-panel'), campaignId, () => {
+      return saved
+    })
+
+    const copyField = (key, multiline, label, value, index) => {
+      const id = `storyboard-${key}-${index}`
+      const attributes = `id="${id}" class="ant-input" data-key="${key}" data-index="${index}"`
+      // The parser drops the newline right after <textarea>, so copy starting with one keeps it
+      return formItem(
+        id,
+        label,
+        multiline
+          ? `<textarea ${attributes} rows="3">\n${escapeHtml(value)}</textarea>`
+          : `<input ${attributes} value="${escapeHtml(value)}">`
+      )
+    }
+
+    const renderAssets = () => {
+      const list = sections.querySelector('.ant-upload-list')
+      list.innerHTML = draft.assets
+        .map((asset) => {
+          const isImage = asset.mimeType.startsWith('image/')
+          const thumbnail =
+            asset.status === 'uploading'
+              ? '<div class="ant-upload-list-item-thumbnail">Uploading...</div>'
+              : isImage && asset.url
+                ? `<a class="ant-upload-list-item-thumbnail" href="${asset.url}" target="_blank" rel="noopener noreferrer"><img src="${asset.url}" alt="${escapeHtml(asset.name)}" class="ant-upload-list-item-image"></a>`
+                : '<span class="ant-upload-list-item-thumbnail"><span role="img" aria-label="file" class="anticon anticon-file">&#128196;</span></span>'
+          return `
+            <div class="ant-upload-list-item-container">
+              <div class="ant-upload-list-item ant-upload-list-item-${asset.status}">
+                ${thumbnail}
+                <span class="ant-upload-list-item-name" title="${escapeHtml(asset.name)}">${escapeHtml(asset.name)}</span>
+                <span class="ant-upload-list-item-actions">
+                  <button type="button" title="Remove file" class="ant-btn ant-btn-text ant-btn-sm ant-upload-list-item-action" data-remove="${asset.key}"><span role="img" aria-label="delete" class="anticon anticon-delete">&#128465;</span></button>
+                </span>
+              </div>
+            </div>`
+        })
+        .join('')
+    }
+
+    const renderForm = () => {
+      const copySections = COPY_SECTIONS.map(({ key, testId, title, label, multiline }) => {
+        const field = draft[key]
+        const variants = field.variants
+          .map((value, index) => {
+            return copyField(key, multiline, `Variation ${label} ${index + 1}`, value, index)
+          })
+          .join('')
+        return collapse({
+          testId,
+          title,
+          expanded: expanded[testId],
+          content: copyField(key, multiline, `Default ${label}`, field.default, -1) + variants,
+        })
+      })
+
+      sections.innerHTML = [
+        ...copySections,
+        collapse({
+          testId: 'legal-copy',
+          title: 'LEGAL COPY',
+          expanded: expanded['legal-copy'],
+          content: copyField('legalCopy', true, 'Legal Copy', draft.legalCopy, -1),
+        }),
+        collapse({
+          testId: 'asset',
+          title: 'REFERENCE IMAGES / STYLE GUIDES',
+          expanded: expanded.asset,
+          content: `
+            <span class="ant-upload-wrapper">
+              <div class="ant-upload ant-upload-drag">
+                <span class="ant-upload ant-upload-btn" role="button" tabindex="0">
+                  <input type="file" accept=".png,.jpg,.jpeg,.pdf" multiple style="display: none">
+                  <div class="ant-upload-drag-container">
+                    <p class="ant-upload-drag-icon">&#8682;</p>
+                    <p class="ant-upload-text">Click or drag file to this area to upload</p>
+                    <p class="ant-upload-hint">Support PNG, JPG and PDF reference images or style guides</p>
+                  </div>
+                </span>
+              </div>
+              <div class="ant-upload-list ant-upload-list-picture-card"></div>
+            </span>`,
+        }),
+      ].join('')
+      renderAssets()
+    }
+
+    const updateDirty = () => {
+      saveButton.disabled = JSON.stringify(toPayload(draft)) === JSON.stringify(toPayload(saved))
+    }
+
+    const uploadFile = async (file) => {
+      if (!ALLOWED_UPLOAD_TYPES.includes(file.type)) {
+        showMessage('error', `${file.name} is not a PNG, JPG or PDF file`)
+        return
+      }
+
+      const asset = { key: `upload-${++uploadKey}`, name: file.name, mimeType: file.type, status: 'uploading' }
+      draft.assets.push(asset)
+      renderAssets()
+
+      const body = new FormData()
+      body.append('file', file)
+      try {
+        Object.assign(asset, await request('POST', `campaigns/${campaignId}/assets`, body), { status: 'done' })
+      } catch {
+        asset.status = 'error'
+      }
+      renderAssets()
+      updateDirty()
+    }
+
+    sections.addEventListener('click', (event) => {
+      const header = event.target.closest('.ant-collapse-header')
+      if (header) {
+        const testId = header.closest('.ant-collapse').dataset.testid.replace(/-section$/, '')
+        expanded[testId] = toggleCollapse(header)
+        return
+      }
+
+      const removeButton = event.target.closest('[data-remove]')
+      if (removeButton) {
+        draft.assets = draft.assets.filter((asset) => {
+          return asset.key !== removeButton.dataset.remove
+        })
+        renderAssets()
+        updateDirty()
+        return
+      }
+
+      if (event.target.closest('.ant-upload-btn')) {
+        sections.querySelector('input[type="file"]').click()
+      }
+    })
+
+    sections.addEventListener('input', (event) => {
+      const { key, index } = event.target.dataset
+      if (!key) {
+        return
+      }
+      if (key === 'legalCopy') {
+        draft.legalCopy = event.target.value
+      } else if (index === '-1') {
+        draft[key].default = event.target.value
+      } else {
+        draft[key].variants[Number(index)] = event.target.value
+      }
+      updateDirty()
+    })
+
+    sections.addEventListener('change', (event) => {
+      if (event.target.type === 'file') {
+        const files = [...event.target.files]
+        event.target.value = ''
+        for (const file of files) {
+          uploadFile(file)
+        }
+      }
+    })
+
+    form.querySelector('[data-testid="storyboard-cancel-btn"]').addEventListener('click', () => {
+      draft = structuredClone(saved)
+      renderForm()
+      updateDirty()
+    })
+
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault()
+      const storyboard = await request('PUT', `campaigns/${campaignId}/storyboard`, toPayload(draft))
+      saved = toFormState(storyboard)
+      draft = structuredClone(saved)
+      renderForm()
+      updateDirty()
+      previewPanel.render()
+      showMessage('success', 'Storyboard & Copy saved successfully')
+    })
+
+    // Show the form and the preview together, like the app does once both have loaded
+    renderForm()
+    await previewPanel.load()
+    pane.querySelector('.storyboard-layout').hidden = false
+  }
+
+  // ==================== Preview panel ====================
+
+  function createPreviewPanel(container, campaignId, getStoryboard) {
+    let orientation = 'portrait'
+    let previews = { status: 'none', items: [], config: {} }
+    let styles = {}
+    let polling = false
+
+    const isGenerating = () => {
+      return previews.status === 'generating'
+    }
+
+    const renderSlides = () => {
+      const [width, height] = PREVIEW_SIZES[orientation]
+      const storyboard = getStoryboard()
+      const texts = STYLE_SECTIONS.map(({ key, copy }) => {
+        const style = styles[key]
+        if (!style) {
+          return ''
+        }
+        return `<p class="preview-text" data-section="${key}" style="top: ${style.top}; left: ${style.left}; width: ${style.width}; font-size: ${style.fontSize}; color: ${style.fontColor}; text-align: ${style.textAlign}">${escapeHtml(copy(storyboard))}</p>`
+      }).join('')
+
+      return `
+        <div data-testid="campaign-preview-container" class="campaign-preview campaign-preview-${orientation}" style="width: ${width}px; height: ${height}px">
+          <div class="ant-carousel">
+            <div class="slick-slider slick-initialized">
+              <div class="slick-list">
+                <div class="slick-track">
+                  ${previews.items
+                    .map((item, index) => {
+                      return `<div class="slick-slide${index === 0 ? ' slick-active slick-current' : ''}" data-index="${index}"><div class="preview-slide">${texts}</div></div>`
+                    })
+                    .join('')}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>`
+    }
+
+    const render = () => {
+      const generating = isGenerating()
+      const hasPreviews = previews.items.length > 0
+      const loadingClass = generating ? ' ant-btn-loading' : ''
+
+      container.innerHTML = `
+        <div class="preview-toolbar">
+          <div class="ant-radio-group ant-radio-group-outline" data-testid="preview-orientation-toggle">
+            ${ORIENTATIONS.map((value) => {
+              const checked = value === orientation
+              return `
+                <label class="ant-radio-button-wrapper${checked ? ' ant-radio-button-wrapper-checked' : ''}">
+                  <span class="ant-radio-button${checked ? ' ant-radio-button-checked' : ''}"><input type="radio" class="ant-radio-button-input" name="preview-orientation" value="${value}"${checked ? ' checked' : ''}></span>
+                  <span>${capitalize(value)}</span>
+                </label>`
+            }).join('')}
+          </div>
+          <button type="button" class="ant-btn" data-testid="configure-styles-btn"${generating ? ' disabled' : ''}>Configure Styles</button>
+          ${hasPreviews ? `<button type="button" class="ant-btn ant-btn-primary${loadingClass}" data-testid="generate-again-btn">${generating ? spinnerIcon : ''}<span>Generate Again</span></button>` : ''}
+        </div>
+        ${
+          hasPreviews
+            ? renderSlides()
+            : `
+              <div class="ant-empty ant-empty-normal">
+                <div class="ant-empty-image">&#128444;</div>
+                <div class="ant-empty-description">No preview yet. Click Generate to create one.</div>
+                <div class="ant-empty-footer">
+                  <button type="button" class="ant-btn ant-btn-primary${loadingClass}" data-testid="generate-btn">${generating ? spinnerIcon : ''}<span>Generate</span></button>
+                </div>
+              </div>`
+        }`
+    }
+
+    const poll = () => {
+      if (polling) {
+        return
+      }
+      polling = true
+      const timer = setInterval(async () => {
+        previews = await request('GET', `campaigns/${campaignId}/previews?orientation=${orientation}`)
+        if (isGenerating()) {
+          return
+        }
+        clearInterval(timer)
+        polling = false
+        render()
+        if (previews.status === 'failed') {
+          showMessage('error', 'Preview generation failed')
+        }
+      }, POLL_INTERVAL)
+    }
+
+    const generate = async (config) => {
+      await request('POST', `campaigns/${campaignId}/previews/generate`, { ...config, orientation })
+      previews.status = 'generating'
+      Object.assign(previews.config, config)
+      render()
+      showMessage('loading', 'Generating preview...')
+      poll()
+    }
+
+    const load = async () => {
+      const query = `orientation=${orientation}`
+      ;[previews, styles] = await Promise.all([
+        request('GET', `campaigns/${campaignId}/previews?${query}`),
+        request('GET', `campaigns/${campaignId}/styles?${query}`),
+      ])
+      render()
+      if (isGenerating()) {
+        poll()
+      }
+    }
+
+    container.addEventListener('change', (event) => {
+      if (event.target.name === 'preview-orientation') {
+        // Reflect the selection straight away, like the AntD radio group does
+        orientation = event.target.value
+        render()
+        load()
+      }
+    })
+
+    container.addEventListener('click', (event) => {
+      const button = event.target.closest('button')
+      if (!button || button.disabled || button.classList.contains('ant-btn-loading')) {
+        return
+      }
+      switch (button.dataset.testid) {
+        case 'generate-btn':
+          generate({ type: 'image' })
+          break
+        case 'generate-again-btn':
+          openRegenerateModal(previews.config, generate)
+          break
+        case 'configure-styles-btn':
+          openStyleModal(campaignId, orientation, async () => {
+            styles = await request('GET', `campaigns/${campaignId}/styles?orientation=${orientation}`)
+            render()
+          })
+          break
+      }
+    })
+
+    return { load, render }
+  }
+
+  // ==================== Regenerate modal ====================
+
+  function openRegenerateModal(config, generate) {
+    const isVideo = config.type === 'video'
+    const modal = openModal({
+      title: 'Regenerate Preview',
+      body: `
+        <form id="regenerate-preview-form" class="ant-form ant-form-vertical" novalidate>
+          <div class="ant-form-item">
+            <div class="ant-radio-group">
+              <label class="ant-radio-wrapper"><span class="ant-radio"><input type="radio" name="type" value="image" class="ant-radio-input" data-testid="regenerate-type-image"${isVideo ? '' : ' checked'}></span><span>Image</span></label>
+              <label class="ant-radio-wrapper"><span class="ant-radio"><input type="radio" name="type" value="video" class="ant-radio-input" data-testid="regenerate-type-video"${isVideo ? ' checked' : ''}></span><span>Video</span></label>
+            </div>
+          </div>
+          ${formItem('regenerate-prompt', 'Prompt', `<textarea id="regenerate-prompt" class="ant-input" rows="4">${escapeHtml(config.prompt)}</textarea>`)}
+          <div data-video-fields${isVideo ? '' : ' hidden'}>
+            ${formItem('regenerate-duration', 'Duration:', `<input id="regenerate-duration" type="number" class="ant-input" min="1" max="30" value="${escapeHtml(config.duration)}">`)}
+            ${formItem('regenerate-fps', 'FPS:', `<div class="ant-input-number"><div class="ant-input-number-input-wrap"><input id="regenerate-fps" class="ant-input-number-input" inputmode="numeric" value="${escapeHtml(config.fps)}"></div></div>`)}
+            <div class="ant-form-item">
+              <label class="ant-checkbox-wrapper"><span class="ant-checkbox"><input type="checkbox" class="ant-checkbox-input"${config.multiShoot ? ' checked' : ''}></span><span>Multi-shoot</span></label>
+            </div>
+          </div>
+        </form>`,
+      footer: `
+        <button type="button" class="ant-btn" data-testid="regenerate-modal-cancel-btn">Cancel</button>
+        <button type="button" class="ant-btn ant-btn-primary" data-testid="regenerate-modal-generate-btn">Generate</button>`,
+    })
+
+    const form = modal.element.querySelector('form')
+    form.addEventListener('change', (event) => {
+      if (event.target.name === 'type') {
+        form.querySelector('[data-video-fields]').hidden = event.target.value !== 'video'
+      }
+    })
+
+    modal.element.querySelector('[data-testid="regenerate-modal-cancel-btn"]').addEventListener('click', modal.close)
+    modal.element.querySelector('[data-testid="regenerate-modal-generate-btn"]').addEventListener('click', async () => {
+      const type = form.querySelector('input[name="type"]:checked').value
+      const options = { type, prompt: form.querySelector('#regenerate-prompt').value }
+      if (type === 'video') {
+        options.duration = Number(form.querySelector('#regenerate-duration').value)
+        options.fps = Number(form.querySelector('#regenerate-fps').value)
+        options.multiShoot = form.querySelector('.ant-checkbox-input').checked
+      }
+      await generate(options)
+      modal.close()
+    })
+  }
+
+  // ==================== Style settings modal ====================
+
+  function openStyleModal(campaignId, orientation, onSaved) {
+    const query = `orientation=${orientation}`
+
+    const select = (field, value) => {
+      return `<div class="ant-select ant-select-single" data-field="${field}" tabindex="0"><div class="ant-select-selector"><span class="ant-select-selection-item" title="${escapeHtml(value)}">${escapeHtml(value)}</span></div></div>`
+    }
+
+    const input = (section, field, label, value) => {
+      const id = `style-${section}-${field}`
+      return formItem(id, label, `<input id="${id}" class="ant-input" data-field="${field}" value="${escapeHtml(value)}">`)
+    }
+
+    const sectionContent = (key, style) => {
+      return `
+        <div class="style-group-label">Typography</div>
+        ${input(key, 'fontSize', 'Font Size', style.fontSize)}
+        ${input(key, 'fontColor', 'Font Color', style.fontColor)}
+        ${formItem(`style-${key}-textAlign`, 'Text Align', select('textAlign', style.textAlign))}
+        <div class="style-group-label">Position &amp; Dimensions</div>
+        ${input(key, 'top', 'Top', style.top)}
+        ${input(key, 'left', 'Left', style.left)}
+        ${input(key, 'width', 'Width', style.width)}
+        <div class="style-group-label">Animation</div>
+        ${formItem(`style-${key}-appearAnimation`, 'Appear Animation', select('appearAnimation', style.appearAnimation))}
+        ${input(key, 'appearTime', 'Appear Time', style.appearTime)}
+        ${formItem(`style-${key}-exitAnimation`, 'Exit Animation', select('exitAnimation', style.exitAnimation))}
+        ${input(key, 'exitTime', 'Exit Time', style.exitTime)}`
+    }
+
+    request('GET', `campaigns/${campaignId}/styles?${query}`).then((styles) => {
+      const modal = openModal({
+        title: 'Campaign Style Settings',
+        body: STYLE_SECTIONS.map(({ key, title }, index) => {
+          return collapse({
+            testId: `${key}-style`,
+            title,
+            expanded: index === 0,
+            content: `<div data-style-section="${key}">${sectionContent(key, styles[key])}</div>`,
+          })
+        }).join(''),
+        footer: `
+          <button type="button" class="ant-btn" data-testid="campaign-style-modal-cancel-btn">Cancel</button>
+          <button type="button" class="ant-btn ant-btn-primary" data-testid="campaign-style-modal-save-btn">Save</button>`,
+      })
+
+      let dropdown = null
+      const closeDropdown = () => {
+        dropdown?.remove()
+        dropdown = null
+      }
+
+      modal.element.addEventListener('click', (event) => {
+        const header = event.target.closest('.ant-collapse-header')
+        if (header) {
+          toggleCollapse(header)
+          return
+        }
+
+        const selectElement = event.target.closest('.ant-select')
+        if (!selectElement) {
+          return
+        }
+        closeDropdown()
+        const rect = selectElement.getBoundingClientRect()
+        dropdown = document.createElement('div')
+        dropdown.className = 'ant-select-dropdown'
+        dropdown.style.top = `${rect.bottom + window.scrollY + 4}px`
+        dropdown.style.left = `${rect.left + window.scrollX}px`
+        dropdown.innerHTML = SELECT_OPTIONS[selectElement.dataset.field]
+          .map((option) => {
+            return `<div class="ant-select-item ant-select-item-option" data-value="${escapeHtml(option)}">${escapeHtml(option)}</div>`
+          })
+          .join('')
+        dropdown.addEventListener('click', (optionEvent) => {
+          const option = optionEvent.target.closest('.ant-select-item')
+          const selection = selectElement.querySelector('.ant-select-selection-item')
+          selection.textContent = option.dataset.value
+          selection.title = option.dataset.value
+          closeDropdown()
+        })
+        document.body.append(dropdown)
+      })
+
+      const close = () => {
+        closeDropdown()
+        modal.close()
+      }
+      modal.element.querySelector('.ant-modal-close').addEventListener('click', closeDropdown)
+      modal.element.querySelector('[data-testid="campaign-style-modal-cancel-btn"]').addEventListener('click', close)
+      modal.element.querySelector('[data-testid="campaign-style-modal-save-btn"]').addEventListener('click', async () => {
+        const update = {}
+        for (const section of modal.element.querySelectorAll('[data-style-section]')) {
+          const style = {}
+          for (const field of section.querySelectorAll('[data-field]')) {
+            style[field.dataset.field] = field.classList.contains('ant-select')
+              ? field.querySelector('.ant-select-selection-item').textContent
+              : field.value
+          }
+          style.appearTime = Number(style.appearTime)
+          style.exitTime = Number(style.exitTime)
+          update[section.dataset.styleSection] = style
+        }
+        await request('PUT', `campaigns/${campaignId}/styles?${query}`, update)
+        close()
+        showMessage('success', 'Styles saved successfully')
+        await onSaved()
+      })
+    })
+  }
+
+  // ==================== Routing ====================
+
+  function route() {
+    const path = location.pathname.replace(/\/+$/, '')
+    if (path === `${BASE}/login`) {
+      renderLogin()
+      return
+    }
+    if (!getToken()) {
+      redirectToLogin()
+      return
+    }
+    if (path === `${BASE}/campaigns`) {
+      renderCampaignTable()
+      return
+    }
+    if (path === `${BASE}/campaigns/details/create`) {
+      renderCampaignDetails(null)
+      return
+    }
+    const details = path.match(/^\/hq-admin\/campaigns\/details\/(\d+)(?:\/.*)?$/)
+    if (details) {
+      renderCampaignDetails(Number(details[1]))
+      return
+    }
+    renderHome()
+  }
+
+  window.addEventListener('popstate', route)
+  route()
+})()
@@ -0,0 +1,451 @@
+import http, { IncomingMessage, ServerResponse } from 'http'
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { MockAsset, MockHqAdminStore, MockSettings, MockStoryboard, Orientation } from './store'
+
+type UploadedFile = {
+  name: string
+  mimeType: string
+  content: Buffer
+}
+
+type RouteContext = {
+  store: MockHqAdminStore
+  request: IncomingMessage
+  response: ServerResponse
+  url: URL
+}
+
+export type MockServer = {
+  url: string
+  store: MockHqAdminStore
+  close: () => Promise<void>
+}
+
+// Request bodies as far as the routes read them, unknown fields are dropped before the store
+// sees them. Fields are optional, the routes answer for missing ones like HQ Admin does
+const loginBodySchema = z.object({ email: z.string(), password: z.string() }).partial()
+
+const campaignBodySchema = z.object({ name: z.string() }).partial()
+
+const copyFieldSchema = z.object({ default: z.string(), variants: z.array(z.string()) })
+
+const storyboardBodySchema = z
+  .object({
+    headline: copyFieldSchema,
+    subHeadline: copyFieldSchema,
+    bodyCopy: copyFieldSchema,
+    ctaCopy: copyFieldSchema,
+    legalCopy: z.string(),
+    // The app sends the IDs as numbers, the API client as the strings it reads them as
+    assetIds: z.array(z.coerce.number()),
+  })
+  .partial()
+
+const previewConfigBodySchema = z
+  .object({
+    type: z.enum(['image', 'video']),
+    prompt: z.string(),
+    duration: z.number(),
+    fps: z.number(),
+    multiShoot: z.boolean(),
+  })
+  .partial()
+
+const textStyleSchema = z
+  .object({
+    fontSize: z.string(),
+    fontColor: z.string(),
+    textAlign: z.enum(['left', 'center', 'right']),
+    top: z.string(),
+    left: z.string(),
+    width: z.string(),
+    appearAnimation: z.string(),
+    appearTime: z.number(),
+    exitAnimation: z.string(),
+    exitTime: z.number(),
+  })
+  .partial()
+
+const stylesBodySchema = z
+  .object({
+    headline: textStyleSchema,
+    'sub-headline': textStyleSchema,
+    'body-copy': textStyleSchema,
+    'cta-copy': textStyleSchema,
+    'legal-copy': textStyleSchema,
+  })
+  .partial()
+
+const settingsBodySchema = z
+  .object({
+    generationDelayMs: z.number(),
+    tokenTtlSeconds: z.number(),
+    capabilities: z.array(z.string()),
+  })
+  .partial()
+
+const publicDir = path.join(__dirname, 'public')
+
+const staticTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+}
+
+const sendJson = (response: ServerResponse, status: number, body: unknown): void => {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+const sendError = (response: ServerResponse, status: number, message: string): void => {
+  sendJson(response, status, { message })
+}
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Read a JSON body, throws a ZodError answered with 400 when it doesn't match the schema
+ */
+const readJson = async <T extends z.ZodType>(
+  request: IncomingMessage,
+  schema: T
+): Promise<z.output<T>> => {
+  const body = await readBody(request)
+  return schema.parse(body.length ? JSON.parse(body.toString('utf8')) : {})
+}
+
+/**
+ * Read the first file part of a multipart/form-data body
+ */
+const readUploadedFile = async (request: IncomingMessage): Promise<UploadedFile | undefined> => {
+  const boundary = request.headers['content-type']?.match(/boundary=(?:"([^"]+)"|([^;]+))/)
+  if (!boundary) {
+    return undefined
+  }
+
+  const body = await readBody(request)
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`)
+  let start = body.indexOf(delimiter)
+  while (start !== -1) {
+    const end = body.indexOf(delimiter, start + delimiter.length)
+    if (end === -1) {
+      break
+    }
+
+    const part = body.subarray(start + delimiter.length + 2, end - 2)
+    const headerEnd = part.indexOf('\r\n\r\n')
+    const headers = part.subarray(0, headerEnd).toString('utf8')
+    const fileName = headers.match(/filename="([^"]*)"/)
+    if (fileName) {
+      const mimeType = headers.match(/Content-Type:\s*([^\r\n]+)/i)
+      return {
+        name: fileName[1],
+        mimeType: mimeType ? mimeType[1].trim() : 'application/octet-stream',
+        content: part.subarray(headerEnd + 4),
+      }
+    }
+    start = end
+  }
+  return undefined
+}
+
+/**
+ * Build an unsigned JWT-shaped token, enough for the app and auth.setup.ts to read `exp`
+ */
+const createToken = (email: string, ttlSeconds: number): string => {
+  const encode = (value: object) => {
+    return Buffer.from(JSON.stringify(value)).toString('base64').replace(/=+$/, '')
+  }
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: email, exp })}.mock`
+}
+
+const isAuthorized = (request: IncomingMessage): boolean => {
+  const token = request.headers.authorization?.replace(/^Bearer /, '')
+  try {
+    const payload = JSON.parse(Buffer.from(token?.split('.')[1] ?? '', 'base64').toString('utf8'))
+    return typeof payload.exp === 'number' && payload.exp * 1000 > Date.now()
+  } catch {
+    return false
+  }
+}
+
+const serializeAsset = (asset: MockAsset) => {
+  return {
+    id: asset.id,
+    name: asset.name,
+    url: `/mock-assets/${asset.id}`,
+    mimeType: asset.mimeType,
+  }
+}
+
+const serializeStoryboard = (store: MockHqAdminStore, campaignId: number, storyboard: MockStoryboard) => {
+  const { assetIds, ...copy } = storyboard
+  const assets = assetIds
+    .map((id) => {
+      return store.getAsset(id)
+    })
+    .filter((asset): asset is MockAsset => {
+      return asset !== undefined
+    })
+  return { campaignId, ...copy, assets: assets.map(serializeAsset) }
+}
+
+const serveStatic = (response: ServerResponse, filePath: string): void => {
+  const resolved = path.join(publicDir, filePath)
+  if (!resolved.startsWith(publicDir) || !fs.existsSync(resolved)) {
+    sendError(response, 404, 'Not found')
+    return
+  }
+  response.writeHead(200, {
+    'Content-Type': staticTypes[path.extname(resolved)] ?? 'application/octet-stream',
+  })
+  fs.createReadStream(resolved).pipe(response)
+}
+
+/**
+ * Handle /api/campaigns/:id/... routes
+ */
+const handleCampaignRoute = async (
+  { store, request, response, url }: RouteContext,
+  campaignId: number,
+  resource: string | undefined
+): Promise<void> => {
+  const campaign = store.getCampaign(campaignId)
+  if (!campaign) {
+    sendError(response, 404, `Campaign ${campaignId} not found`)
+    return
+  }
+
+  const route = `${request.method} ${resource ?? ''}`
+  switch (route) {
+    case 'GET ':
+      sendJson(response, 200, campaign)
+      return
+    case 'PATCH ':
+      sendJson(
+        response,
+        200,
+        store.updateCampaign(campaignId, await readJson(request, campaignBodySchema))
+      )
+      return
+    case 'DELETE ':
+      store.deleteCampaign(campaignId)
+      response.writeHead(204).end()
+      return
+    case 'GET storyboard':
+    case 'PUT storyboard': {
+      const storyboard =
+        request.method === 'PUT'
+          ? store.updateStoryboard(campaignId, await readJson(request, storyboardBodySchema))
+          : store.getStoryboard(campaignId)
+      if (!storyboard) {
+        sendError(response, 404, 'Storyboard has not been generated')
+        return
+      }
+      sendJson(response, 200, serializeStoryboard(store, campaignId, storyboard))
+      return
+    }
+    case 'POST storyboard/generate':
+      sendJson(response, 202, store.generateStoryboard(campaignId))
+      return
+    case 'GET previews': {
+      const previews = store.getPreviews(campaignId)
+      const orientation = url.searchParams.get('orientation') ?? 'portrait'
+      sendJson(response, 200, { ...previews, orientation })
+      return
+    }
+    case 'POST previews/generate':
+      sendJson(
+        response,
+        202,
+        store.generatePreview(campaignId, await readJson(request, previewConfigBodySchema))
+      )
+      return
+    case 'GET styles':
+    case 'PUT styles': {
+      const orientation = (url.searchParams.get('orientation') ?? 'portrait') as Orientation
+      const styles =
+        request.method === 'PUT'
+          ? store.updateStyles(campaignId, orientation, await readJson(request, stylesBodySchema))
+          : store.getStyles(campaignId, orientation)
+      sendJson(response, 200, styles)
+      return
+    }
+    case 'POST assets': {
+      const file = await readUploadedFile(request)
+      if (!file) {
+        sendError(response, 400, 'Expected a multipart file upload')
+        return
+      }
+      sendJson(response, 201, serializeAsset(store.createAsset(file.name, file.mimeType, file.content)))
+      return
+    }
+  }
+
+  sendError(response, 404, `No route for ${request.method} ${url.pathname}`)
+}
+
+/**
+ * Handle /api/... routes
+ */
+const handleApi = async (context: RouteContext): Promise<void> => {
+  const { store, request, response, url } = context
+  const apiPath = url.pathname.replace(/^\/api\/?/, '')
+
+  if (request.method === 'POST' && apiPath === 'auth/login') {
+    const { email, password } = await readJson(request, loginBodySchema)
+    if (!email || !password) {
+      sendError(response, 401, 'Invalid email or password')
+      return
+    }
+    sendJson(response, 200, { accessToken: createToken(email, store.settings.tokenTtlSeconds) })
+    return
+  }
+
+  if (!isAuthorized(request)) {
+    sendError(response, 401, 'Unauthorized')
+    return
+  }
+
+  if (request.method === 'GET' && apiPath === 'version') {
+    sendJson(response, 200, { version: 'mock', capabilities: store.settings.capabilities })
+    return
+  }
+
+  if (apiPath === 'campaigns') {
+    if (request.method === 'POST') {
+      const { name } = await readJson(request, campaignBodySchema)
+      if (!name) {
+        sendError(response, 400, 'Campaign name is required')
+        return
+      }
+      sendJson(response, 201, store.createCampaign(name))
+      return
+    }
+
+    const campaigns = store.listCampaigns(url.searchParams.get('name') ?? undefined)
+    const page = Number(url.searchParams.get('page') ?? 1)
+    const pageSize = Number(url.searchParams.get('pageSize') ?? 20)
+    sendJson(response, 200, {
+      items: campaigns.slice((page - 1) * pageSize, page * pageSize),
+      total: campaigns.length,
+    })
+    return
+  }
+
+  const campaignMatch = apiPath.match(/^campaigns\/(\d+)(?:\/(.+))?$/)
+  if (campaignMatch) {
+    await handleCampaignRoute(context, Number(campaignMatch[1]), campaignMatch[2])
+    return
+  }
+
+  const jobMatch = apiPath.match(/^generation-jobs\/(\d+)$/)
+  if (request.method === 'GET' && jobMatch) {
+    const job = store.getJob(Number(jobMatch[1]))
+    if (!job) {
+      sendError(response, 404, `Generation job ${jobMatch[1]} not found`)
+      return
+    }
+    sendJson(response, 200, job)
+    return
+  }
+
+  sendError(response, 404, `No route for ${request.method} ${url.pathname}`)
+}
+
+const handleRequest = async (context: RouteContext): Promise<void> => {
+  const { store, request, response, url } = context
+
+  if (url.pathname.startsWith('/api/')) {
+    await handleApi(context)
+    return
+  }
+
+  // Test-only controls, e.g. to slow generation down or speed it up
+  if (url.pathname === '/__mock/settings') {
+    if (request.method === 'PUT') {
+      Object.assign(store.settings, await readJson(request, settingsBodySchema))
+    }
+    sendJson(response, 200, store.settings)
+    return
+  }
+
+  const assetMatch = url.pathname.match(/^\/mock-assets\/(\d+)$/)
+  if (assetMatch) {
+    const asset = store.getAsset(Number(assetMatch[1]))
+    if (!asset) {
+      sendError(response, 404, 'Not found')
+      return
+    }
+    response.writeHead(200, { 'Content-Type': asset.mimeType })
+    response.end(asset.content)
+    return
+  }
+
+  if (url.pathname.startsWith('/mock-static/')) {
+    serveStatic(response, url.pathname.replace('/mock-static/', ''))
+    return
+  }
+
+  if (url.pathname === '/' || url.pathname === '/hq-admin') {
+    response.writeHead(302, { Location: '/hq-admin/' }).end()
+    return
+  }
+
+  // Every app route renders the same shell, app.js routes on the client
+  if (url.pathname.startsWith('/hq-admin/')) {
+    serveStatic(response, 'index.html')
+    return
+  }
+
+  sendError(response, 404, 'Not found')
+}
+
+/**
+ * Start the HQ Admin stand-in on the given port
+ */
+export async function startMockServer(port: number, settings: MockSettings): Promise<MockServer> {
+  const store = new MockHqAdminStore(settings)
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? '/', `http://${request.headers.host}`)
+    handleRequest({ store, request, response, url }).catch((error: Error) => {
+      if (error instanceof z.ZodError) {
+        sendError(response, 400, z.prettifyError(error))
+        return
+      }
+      if (error instanceof SyntaxError) {
+        sendError(response, 400, error.message)
+        return
+      }
+      sendError(response, 500, error.message)
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, resolve)
+  })
+
+  return {
+    url: `http://localhost:${port}`,
+    store,
+    close: () => {
+      store.dispose()
+      server.closeAllConnections()
+      return new Promise((resolve) => {
+        server.close(() => {
+          resolve()
+        })
+      })
+    },
+  }
+}
@@ -0,0 +1,337 @@
+export type StoryboardStatus = 'none' | 'generating' | 'completed' | 'failed'
+export type PreviewStatus = 'none' | 'generating' | 'completed' | 'failed'
+export type Orientation = 'portrait' | 'landscape'
+
+export const copySectionKeys = ['headline', 'subHeadline', 'bodyCopy', 'ctaCopy'] as const
+export const styleSectionKeys = [
+  'headline',
+  'sub-headline',
+  'body-copy',
+  'cta-copy',
+  'legal-copy',
+] as const
+
+export type CopySectionKey = (typeof copySectionKeys)[number]
+export type StyleSectionKey = (typeof styleSectionKeys)[number]
+
+export type MockCampaign = {
+  id: number
+  name: string
+  storyboardStatus: StoryboardStatus
+  // Why the last storyboard generation failed
+  storyboardError: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type MockCopyField = {
+  default: string
+  variants: string[]
+}
+
+export type MockStoryboard = Record<CopySectionKey, MockCopyField> & {
+  legalCopy: string
+  assetIds: number[]
+}
+
+export type MockAsset = {
+  id: number
+  name: string
+  mimeType: string
+  content: Buffer
+}
+
+export type MockPreviewConfig = {
+  type: 'image' | 'video'
+  prompt: string
+  duration: number
+  fps: number
+  multiShoot: boolean
+}
+
+export type MockPreviews = {
+  status: PreviewStatus
+  items: Array<{ id: number; createdAt: string }>
+  config: MockPreviewConfig
+}
+
+export type MockTextStyle = {
+  fontSize: string
+  fontColor: string
+  textAlign: 'left' | 'center' | 'right'
+  top: string
+  left: string
+  width: string
+  appearAnimation: string
+  appearTime: number
+  exitAnimation: string
+  exitTime: number
+}
+
+export type MockStyles = Record<StyleSectionKey, MockTextStyle>
+
+export type MockJob = {
+  id: number
+  campaignId: number
+  kind: 'storyboard' | 'preview'
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  progress: number
+  error: string | null
+}
+
+export type MockSettings = {
+  // How long storyboard and preview generation take before completing
+  generationDelayMs: number
+  // Lifetime of the access tokens handed out by /api/auth/login
+  tokenTtlSeconds: number
+  // Capabilities /api/version reports, the app implements none of the gated features
+  capabilities: string[]
+}
+
+const defaultStyle = (index: number): MockTextStyle => {
+  return {
+    fontSize: '24px',
+    fontColor: '#ffffff',
+    textAlign: 'center',
+    top: `${20 + index * 60}px`,
+    left: '10px',
+    width: '250px',
+    appearAnimation: 'Fade In',
+    appearTime: 0,
+    exitAnimation: 'Fade Out',
+    exitTime: 3,
+  }
+}
+
+const defaultStyles = (): MockStyles => {
+  return Object.fromEntries(
+    styleSectionKeys.map((key, index) => {
+      return [key, defaultStyle(index)]
+    })
+  ) as MockStyles
+}
+
+/**
+ * In-memory HQ Admin data with timer-driven AI generation
+ */
+export class MockHqAdminStore {
+  readonly settings: MockSettings
+
+  private readonly campaigns = new Map<number, MockCampaign>()
+  private readonly storyboards = new Map<number, MockStoryboard>()
+  private readonly previews = new Map<number, MockPreviews>()
+  private readonly styles = new Map<string, MockStyles>()
+  private readonly assets = new Map<number, MockAsset>()
+  private readonly jobs = new Map<number, MockJob>()
+  private readonly jobStartTimes = new Map<number, number>()
+  private readonly timers = new Set<NodeJS.Timeout>()
+
+  private nextCampaignId = 7482
+  private nextId = 1
+
+  constructor(settings: MockSettings) {
+    this.settings = settings
+
+    // A ready campaign at the StoryboardAndCopyPage default ID
+    const campaign = this.createCampaign('Summer Launch')
+    campaign.storyboardStatus = 'completed'
+    this.storyboards.set(campaign.id, this.generatedStoryboard(campaign.name))
+  }
+
+  // ==================== Campaigns ====================
+
+  listCampaigns(name: string | undefined): MockCampaign[] {
+    const query = name?.toLowerCase() ?? ''
+    return [...this.campaigns.values()]
+      .filter((campaign) => {
+        return campaign.name.toLowerCase().includes(query)
+      })
+      .sort((a, b) => {
+        return b.id - a.id
+      })
+  }
+
+  getCampaign(id: number): MockCampaign | undefined {
+    return this.campaigns.get(id)
+  }
+
+  createCampaign(name: string): MockCampaign {
+    const now = new Date().toISOString()
+    const campaign: MockCampaign = {
+      id: this.nextCampaignId++,
+      name,
+      storyboardStatus: 'none',
+      storyboardError: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.campaigns.set(campaign.id, campaign)
+    return campaign
+  }
+
+  updateCampaign(id: number, input: { name?: string }): MockCampaign | undefined {
+    const campaign = this.campaigns.get(id)
+    if (campaign && input.name !== undefined) {
+      campaign.name = input.name
+      campaign.updatedAt = new Date().toISOString()
+    }
+    return campaign
+  }
+
+  deleteCampaign(id: number): boolean {
+    this.storyboards.delete(id)
+    this.previews.delete(id)
+    return this.campaigns.delete(id)
+  }
+
+  // ==================== Storyboard & Copy ====================
+
+  getStoryboard(campaignId: number): MockStoryboard | undefined {
+    return this.storyboards.get(campaignId)
+  }
+
+  updateStoryboard(
+    campaignId: number,
+    update: Partial<MockStoryboard>
+  ): MockStoryboard | undefined {
+    const storyboard = this.storyboards.get(campaignId)
+    if (!storyboard) {
+      return undefined
+    }
+    Object.assign(storyboard, update)
+    return storyboard
+  }
+
+  generateStoryboard(campaignId: number): MockJob | undefined {
+    const campaign = this.campaigns.get(campaignId)
+    if (!campaign) {
+      return undefined
+    }
+
+    campaign.storyboardStatus = 'generating'
+    campaign.storyboardError = null
+    return this.startJob(campaignId, 'storyboard', () => {
+      campaign.storyboardStatus = 'completed'
+      this.storyboards.set(campaignId, this.generatedStoryboard(campaign.name))
+    })
+  }
+
+  // ==================== Previews ====================
+
+  getPreviews(campaignId: number): MockPreviews {
+    let previews = this.previews.get(campaignId)
+    if (!previews) {
+      previews = {
+        status: 'none',
+        items: [],
+        config: { type: 'image', prompt: '', duration: 5, fps: 24, multiShoot: false },
+      }
+      this.previews.set(campaignId, previews)
+    }
+    return previews
+  }
+
+  generatePreview(campaignId: number, config: Partial<MockPreviewConfig>): MockJob | undefined {
+    if (!this.campaigns.has(campaignId)) {
+      return undefined
+    }
+
+    const previews = this.getPreviews(campaignId)
+    previews.status = 'generating'
+    Object.assign(previews.config, config)
+    return this.startJob(campaignId, 'preview', () => {
+      previews.status = 'completed'
+      previews.items = [{ id: this.nextId++, createdAt: new Date().toISOString() }]
+    })
+  }
+
+  getJob(id: number): MockJob | undefined {
+    const job = this.jobs.get(id)
+    const startTime = this.jobStartTimes.get(id)
+    if (job?.status === 'running' && startTime !== undefined) {
+      const elapsed = Date.now() - startTime
+      job.progress = Math.min(99, Math.floor((elapsed / this.settings.generationDelayMs) * 100))
+    }
+    return job
+  }
+
+  // ==================== Styles ====================
+
+  getStyles(campaignId: number, orientation: Orientation): MockStyles {
+    const key = `${campaignId}:${orientation}`
+    let styles = this.styles.get(key)
+    if (!styles) {
+      styles = defaultStyles()
+      this.styles.set(key, styles)
+    }
+    return styles
+  }
+
+  updateStyles(
+    campaignId: number,
+    orientation: Orientation,
+    update: Partial<Record<StyleSectionKey, Partial<MockTextStyle>>>
+  ): MockStyles {
+    const styles = this.getStyles(campaignId, orientation)
+    for (const key of styleSectionKeys) {
+      Object.assign(styles[key], update[key])
+    }
+    return styles
+  }
+
+  // ==================== Assets ====================
+
+  createAsset(name: string, mimeType: string, content: Buffer): MockAsset {
+    const asset: MockAsset = { id: this.nextId++, name, mimeType, content }
+    this.assets.set(asset.id, asset)
+    return asset
+  }
+
+  getAsset(id: number): MockAsset | undefined {
+    return this.assets.get(id)
+  }
+
+  /**
+   * Cancel pending generation timers so the process can exit
+   */
+  dispose(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+  }
+
+  private startJob(campaignId: number, kind: MockJob['kind'], complete: () => void): MockJob {
+    const job: MockJob = {
+      id: this.nextId++,
+      campaignId,
+      kind,
+      status: 'running',
+      progress: 0,
+      error: null,
+    }
+    this.jobs.set(job.id, job)
+    this.jobStartTimes.set(job.id, Date.now())
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer)
+      job.status = 'completed'
+      job.progress = 100
+      complete()
+    }, this.settings.generationDelayMs)
+    this.timers.add(timer)
+
+    return job
+  }
+
+  private generatedStoryboard(campaignName: string): MockStoryboard {
+    return {
+      headline: { default: `Discover ${campaignName}`, variants: [] },
+      subHeadline: { default: 'Fresh picks, made for you', variants: [] },
+      bodyCopy: { default: 'Visit your nearest store and enjoy this season\'s favourites.', variants: [] },
+      ctaCopy: { default: 'Shop now', variants: [] },
+      legalCopy: 'Terms and conditions apply.',
+      assetIds: [],
+    }
+  }
+}
@@ -1,17 +1,38 @@
 import { defineConfig, devices } from '@playwright/test'
-import { authFile } from './config'
+import { env } from './env'
 
 export default defineConfig({
   timeout: process.env.NODE_ENV === 'development' ? 60000 : 30000,
   expect: {
     timeout: 5000,
+    toHaveScreenshot: {
+      // Every environment renders its own data, so each has its own baselines
+      pathTemplate: `{testDir}/__screenshots__/{projectName}/${env.APP_ENV}/{testFilePath}/{arg}-{platform}{ext}`,
+      animations: 'disabled',
+      caret: 'hide',
+      // Anti-aliasing differs a little between runs, a changed font size or position doesn't
+      maxDiffPixelRatio: 0.01,
+    },
   },
+  // Text baselines like the ARIA snapshots, per environment like the screenshots
+  snapshotPathTemplate: `{testDir}/__snapshots__/{projectName}/${env.APP_ENV}/{testFilePath}/{arg}{ext}`,
+  // CI fails on a missing baseline instead of writing it, update them with pnpm test:visual:update or test:a11y:update
+  updateSnapshots: process.env.CI ? 'none' : 'missing',
   testDir: './tests',
+  // Teardowns run in reverse, so the janitor is done before the mock server stops
+  globalSetup: [
+    ...(env.APP_ENV === 'mock' ? ['./mock-server/global-setup.ts'] : []),
+    './tests/global-setup.ts',
+  ],
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : undefined,
-  reporter: 'html',
+  reporter: [
+    ['html'],
+    // Skips per reason and describe block, see tests/hq-admin/skip-reasons.ts
+    ['./reporters/skip-reporter.ts', { maxPreconditionSkips: env.MAX_PRECONDITION_SKIPS }],
+  ],
   use: {
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
@@ -21,10 +42,8 @@ export default defineConfig({
     { name: 'setup', testMatch: /.*\.setup\.ts$/ },
     {
       name: 'chromium',
-      use: {
-        ...devices['Desktop Chrome'],
-        storageState: authFile.hqAdmin,
-      },
+      // Logged in as the role a spec asks for, see tests/fixtures/role.fixture.ts
+      use: { ...devices['Desktop Chrome'] },
       dependencies: ['setup'],
     },
   ],
@@ -0,0 +1,126 @@
+import { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter'
+import { SkipReason, skipReasonOf, skipReasons } from '../tests/hq-admin/skip-reasons'
+
+export type SkipReporterOptions = {
+  // Fail the run when more tests than this skip with precondition-not-met, no limit when unset
+  maxPreconditionSkips?: number
+}
+
+// Skips through testInfo.skip() or test.skip() directly give no reason
+type SkipCategory = SkipReason | 'unclassified'
+
+type Skip = {
+  reason: SkipCategory
+  describe: string
+}
+
+/**
+ * Summarises the skipped tests of a run per skip reason and per describe block, so a green run
+ * that mostly skipped doesn't pass unnoticed, see tests/hq-admin/skip-reasons.ts
+ */
+export default class SkipReporter implements Reporter {
+  private readonly maxPreconditionSkips?: number
+  private readonly skips: Skip[] = []
+  private total = 0
+
+  constructor(options: SkipReporterOptions = {}) {
+    this.maxPreconditionSkips = options.maxPreconditionSkips
+  }
+
+  // Only prints a summary at the end, the progress comes from the other reporters
+  printsToStdio(): boolean {
+    return false
+  }
+
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.total = suite.allTests().length
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (result.status !== 'skipped') {
+      return
+    }
+    // [root, project, file, ...describe blocks, test]
+    const [, , file, ...titles] = test.titlePath()
+    const describes = titles.slice(0, -1)
+    this.skips.push({
+      reason: skipReasonOf([...test.annotations, ...result.annotations]) ?? 'unclassified',
+      describe: describes.length > 0 ? describes.join(' › ') : file,
+    })
+  }
+
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
+    if (this.skips.length === 0) {
+      return undefined
+    }
+    console.log(`\n${this.format()}\n`)
+
+    const preconditionSkips = this.count('precondition-not-met')
+    if (this.maxPreconditionSkips === undefined || preconditionSkips <= this.maxPreconditionSkips) {
+      return undefined
+    }
+    console.log(
+      `❌ ${preconditionSkips} tests skipped because a precondition was not met, ` +
+        `at most ${this.maxPreconditionSkips} allowed (MAX_PRECONDITION_SKIPS)\n`
+    )
+    return { status: result.status === 'passed' ? 'failed' : result.status }
+  }
+
+  private count(reason: SkipCategory, describe?: string): number {
+    return this.skips.filter((skip) => {
+      return skip.reason === reason && (describe === undefined || skip.describe === describe)
+    }).length
+  }
+
+  private format(): string {
+    const categories: SkipCategory[] = [...skipReasons, 'unclassified']
+    const byReason = categories
+      .filter((reason) => {
+        return this.count(reason) > 0
+      })
+      .map((reason) => {
+        return [reason, String(this.count(reason))]
+      })
+
+    const describes = [
+      ...new Set(
+        this.skips.map((skip) => {
+          return skip.describe
+        })
+      ),
+    ]
+    const byDescribe = describes.map((describe) => {
+      const counts = categories
+        .filter((reason) => {
+          return this.count(reason, describe) > 0
+        })
+        .map((reason) => {
+          return `${reason} ${this.count(reason, describe)}`
+        })
+      return [describe, counts.join(', ')]
+    })
+
+    return [
+      `Skipped ${this.skips.length} of ${this.total} tests`,
+      '',
+      'Per reason',
+      formatRows(byReason),
+      '',
+      'Per describe block',
+      formatRows(byDescribe),
+    ].join('\n')
+  }
+}
+
+function formatRows(rows: string[][]): string {
+  const width = Math.max(
+    ...rows.map(([label]) => {
+      return label.length
+    })
+  )
+  return rows
+    .map(([label, value]) => {
+      return `  ${label.padEnd(width)}  ${value}`
+    })
+    .join('\n')
+}
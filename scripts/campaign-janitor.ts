@@ -0,0 +1,58 @@
+import { parseArgs } from 'util'
+import { apiChecked } from '../config'
+import { env } from '../env'
+import { HqAdminApiClient } from '../tests/hq-admin/api/hq-admin-api.client'
+import { cleanOrphanedCampaigns, formatJanitorSummary } from '../tests/hq-admin/campaign-janitor'
+import { DEFAULT_CAMPAIGN_PREFIX } from '../tests/hq-admin/campaign-name'
+
+/**
+ * Delete campaigns test runs left behind in APP_ENV
+ *
+ * pnpm janitor [--dry-run | --no-dry-run] [--max-age-hours 24] [--run-tag 5f3a2b1c] [--prefix duc]
+ *
+ * Dry runs default to JANITOR_DRY_RUN, --no-dry-run deletes even when it is set
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: env.JANITOR_DRY_RUN },
+      'max-age-hours': { type: 'string', default: String(env.JANITOR_MAX_AGE_HOURS) },
+      'run-tag': { type: 'string' },
+      prefix: { type: 'string', default: DEFAULT_CAMPAIGN_PREFIX },
+    },
+    allowNegative: true,
+  })
+
+  const maxAgeHours = Number(values['max-age-hours'])
+  if (!Number.isFinite(maxAgeHours) || maxAgeHours < 0) {
+    throw new Error(`--max-age-hours must be a number of hours, got ${values['max-age-hours']}`)
+  }
+
+  if (!apiChecked) {
+    throw new Error(
+      `The HQ Admin API of ${env.APP_ENV} is not checked yet, run pnpm check:api-schemas on a recording ` +
+        'of it and set apiCheckedByEnv in config.ts first'
+    )
+  }
+
+  const hqAdminApi = await HqAdminApiClient.create()
+  try {
+    const summary = await cleanOrphanedCampaigns(hqAdminApi, {
+      prefix: values.prefix,
+      maxAgeMs: maxAgeHours * 60 * 60 * 1000,
+      runTag: values['run-tag'],
+      dryRun: values['dry-run'],
+    })
+    console.log(formatJanitorSummary(summary))
+    if (summary.failed.length > 0) {
+      process.exitCode = 1
+    }
+  } finally {
+    await hqAdminApi.dispose()
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,146 @@
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { z } from 'zod'
+import { fromZodError } from 'zod-validation-error'
+import {
+  assetSchema,
+  buildInfoSchema,
+  campaignListSchema,
+  campaignSchema,
+  generationJobSchema,
+  storyboardSchema,
+} from '../tests/hq-admin/api/schemas'
+
+/**
+ * Check the response schemas of the API client against traffic recorded from a real HQ Admin,
+ * so a schema that rejects what the backend sends shows up before the tests that parse it
+ *
+ * Record first, e.g. APP_ENV=dev NETWORK_MODE=record pnpm test, then
+ *
+ * pnpm check:api-schemas [--dir tests]
+ *
+ * Once the recordings of an environment pass, set it in apiCheckedByEnv in config.ts so fixtures
+ * set up and clean up through the API there
+ */
+
+// The API is below /api in every environment, see api.hqAdmin in config.ts, which needs credentials to load
+const API_PATH_PREFIX = '/api/'
+
+// Same endpoints as HqAdminApiClient, paths relative to /api
+const CHECKED_ENDPOINTS = [
+  { method: 'GET', path: /^version$/, schema: buildInfoSchema },
+  { method: 'GET', path: /^campaigns$/, schema: campaignListSchema },
+  { method: 'POST', path: /^campaigns$/, schema: campaignSchema },
+  { method: 'GET', path: /^campaigns\/[^/]+$/, schema: campaignSchema },
+  { method: 'PATCH', path: /^campaigns\/[^/]+$/, schema: campaignSchema },
+  { method: 'GET', path: /^campaigns\/[^/]+\/storyboard$/, schema: storyboardSchema },
+  { method: 'PUT', path: /^campaigns\/[^/]+\/storyboard$/, schema: storyboardSchema },
+  { method: 'POST', path: /^campaigns\/[^/]+\/storyboard\/generate$/, schema: generationJobSchema },
+  { method: 'POST', path: /^campaigns\/[^/]+\/previews\/generate$/, schema: generationJobSchema },
+  { method: 'GET', path: /^generation-jobs\/[^/]+$/, schema: generationJobSchema },
+  { method: 'POST', path: /^campaigns\/[^/]+\/assets$/, schema: assetSchema },
+]
+
+// Only what the check reads of a HAR entry
+const harSchema = z.object({
+  log: z.object({
+    entries: z.array(
+      z.object({
+        request: z.object({ method: z.string(), url: z.string() }),
+        response: z.object({
+          status: z.number(),
+          content: z.object({ text: z.string().optional(), encoding: z.string().optional() }),
+        }),
+      })
+    ),
+  }),
+})
+
+type Mismatch = {
+  file: string
+  request: string
+  message: string
+}
+
+function listHarFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.posix.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      return listHarFiles(entryPath)
+    }
+    return entry.name.endsWith('.har') ? [entryPath] : []
+  })
+}
+
+function apiPathOf(url: string): string | undefined {
+  const { pathname } = new URL(url)
+  return pathname.startsWith(API_PATH_PREFIX) ? pathname.slice(API_PATH_PREFIX.length) : undefined
+}
+
+/**
+ * The checked responses of a recording and the mismatches among them
+ */
+function checkHarFile(file: string): { checked: number; mismatches: Mismatch[] } {
+  const har = harSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')))
+  let checked = 0
+  const mismatches: Mismatch[] = []
+  for (const { request, response } of har.log.entries) {
+    const apiPath = apiPathOf(request.url)
+    const endpoint = CHECKED_ENDPOINTS.find(({ method, path: endpointPath }) => {
+      return method === request.method && apiPath !== undefined && endpointPath.test(apiPath)
+    })
+    const { text, encoding } = response.content
+    if (!endpoint || response.status < 200 || response.status >= 300 || text === undefined) {
+      continue
+    }
+
+    checked += 1
+    const requestLine = `${request.method} ${apiPath}`
+    let body: unknown
+    try {
+      body = JSON.parse(encoding === 'base64' ? Buffer.from(text, 'base64').toString('utf8') : text)
+    } catch {
+      mismatches.push({ file, request: requestLine, message: 'response is not JSON' })
+      continue
+    }
+    const result = endpoint.schema.safeParse(body)
+    if (!result.success) {
+      mismatches.push({ file, request: requestLine, message: fromZodError(result.error).message })
+    }
+  }
+  return { checked, mismatches }
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: 'string', default: 'tests' },
+    },
+  })
+
+  const files = listHarFiles(values.dir)
+  if (files.length === 0) {
+    console.error(`No HAR recordings below ${values.dir}, record them first with NETWORK_MODE=record`)
+    process.exitCode = 1
+    return
+  }
+
+  let checked = 0
+  const mismatches: Mismatch[] = []
+  for (const file of files) {
+    const result = checkHarFile(file)
+    checked += result.checked
+    mismatches.push(...result.mismatches)
+  }
+
+  for (const { file, request, message } of mismatches) {
+    console.error(`${file}: ${request} ${message}`)
+  }
+  console.log(`Checked ${checked} API responses in ${files.length} recordings, ${mismatches.length} mismatched`)
+  if (mismatches.length > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
@@ -0,0 +1,121 @@
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { z } from 'zod'
+
+/**
+ * Flag fixed sleeps and network-idle waits in tests, wait for the UI state an action leads to
+ * instead, or its HQ Admin response when the body is needed, see tests/hq-admin/api/hq-admin-responses.ts
+ *
+ * Files keep the sleeps they had when this check was added, listed in the baseline,
+ * any more than that fail
+ *
+ * pnpm lint [--update-baseline]
+ */
+
+const TESTS_DIR = 'tests'
+const BASELINE_FILE = 'scripts/lint-waits.baseline.json'
+
+const FORBIDDEN_WAITS = [
+  { pattern: /\.waitForTimeout\(/, hint: 'waitForTimeout()' },
+  { pattern: /waitForLoadState\(\s*['"]networkidle['"]/, hint: "waitForLoadState('networkidle')" },
+]
+
+const baselineSchema = z.record(z.string(), z.number().int().nonnegative())
+
+type Violation = {
+  line: number
+  text: string
+  hint: string
+}
+
+/**
+ * Every TypeScript file below the directory, paths relative to the repo root
+ */
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.posix.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      // HAR recordings are not code
+      return entry.name === '__har__' ? [] : listSourceFiles(entryPath)
+    }
+    return entry.name.endsWith('.ts') ? [entryPath] : []
+  })
+}
+
+function findViolations(file: string): Violation[] {
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .flatMap((text, index) => {
+      return FORBIDDEN_WAITS.filter(({ pattern }) => {
+        return pattern.test(text)
+      }).map(({ hint }) => {
+        return { line: index + 1, text: text.trim(), hint }
+      })
+    })
+}
+
+function readBaseline(): Record<string, number> {
+  if (!fs.existsSync(BASELINE_FILE)) {
+    return {}
+  }
+  return baselineSchema.parse(JSON.parse(fs.readFileSync(BASELINE_FILE, 'utf8')))
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      'update-baseline': { type: 'boolean', default: false },
+    },
+  })
+
+  const violationsByFile = new Map<string, Violation[]>()
+  for (const file of listSourceFiles(TESTS_DIR)) {
+    const violations = findViolations(file)
+    if (violations.length > 0) {
+      violationsByFile.set(file, violations)
+    }
+  }
+
+  if (values['update-baseline']) {
+    const baseline = Object.fromEntries(
+      [...violationsByFile].map(([file, violations]) => {
+        return [file, violations.length]
+      })
+    )
+    fs.writeFileSync(BASELINE_FILE, `${JSON.stringify(baseline, null, 2)}\n`)
+    console.log(`Wrote ${BASELINE_FILE}`)
+    return
+  }
+
+  const baseline = readBaseline()
+  let failed = false
+  for (const [file, violations] of violationsByFile) {
+    const allowed = baseline[file] ?? 0
+    if (violations.length <= allowed) {
+      continue
+    }
+    failed = true
+    console.error(
+      `${file}: ${violations.length} fixed waits, ${allowed} allowed. Wait for the API response or UI state instead:`
+    )
+    for (const { line, text, hint } of violations) {
+      console.error(`  ${file}:${line} ${hint}  ${text}`)
+    }
+  }
+
+  // Ratchet the baseline down as sleeps get replaced
+  for (const [file, allowed] of Object.entries(baseline)) {
+    const count = violationsByFile.get(file)?.length ?? 0
+    if (count < allowed) {
+      console.log(`${file}: ${count} fixed waits left, lower the baseline with pnpm lint --update-baseline`)
+    }
+  }
+
+  if (failed) {
+    process.exitCode = 1
+  }
+}
+
+main()
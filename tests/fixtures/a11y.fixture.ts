@@ -0,0 +1,21 @@
+import { test as base } from './campaign.fixture'
+import { A11yChecker, formatA11yIssues } from '../hq-admin/a11y-checker'
+
+type A11yFixtures = {
+  a11y: A11yChecker
+}
+
+export const test = base.extend<A11yFixtures>({
+  // Attaches what the checks found, passing or not, so expected issues stay visible in the report
+  a11y: async ({ page }, use, testInfo) => {
+    const a11y = new A11yChecker(page)
+    await use(a11y)
+
+    if (a11y.issues.length > 0) {
+      await testInfo.attach('a11y-issues.txt', {
+        body: formatA11yIssues(a11y.issues),
+        contentType: 'text/plain',
+      })
+    }
+  },
+})
@@ -0,0 +1,22 @@
+import { test as base } from './performance.fixture'
+import { ApiRequestRecorder, formatRecordings } from '../hq-admin/api/api-request-recorder'
+
+type ApiRequestsFixtures = {
+  apiRequests: ApiRequestRecorder
+}
+
+export const test = base.extend<ApiRequestsFixtures>({
+  // Attaches every recording, so the requests behind a passing limit can be compared with a failing one
+  apiRequests: async ({ page }, use, testInfo) => {
+    const apiRequests = new ApiRequestRecorder(page)
+    await use(apiRequests)
+
+    const recordings = apiRequests.recordings
+    if (recordings.length > 0) {
+      await testInfo.attach('api-requests.txt', {
+        body: formatRecordings(recordings),
+        contentType: 'text/plain',
+      })
+    }
+  },
+})
@@ -0,0 +1,17 @@
+import { test as base } from './flags.fixture'
+import { HqAdminApiClient } from '../hq-admin/api/hq-admin-api.client'
+
+type ApiWorkerFixtures = {
+  hqAdminApi: HqAdminApiClient
+}
+
+export const test = base.extend<{}, ApiWorkerFixtures>({
+  hqAdminApi: [
+    async ({}, use) => {
+      const hqAdminApi = await HqAdminApiClient.create()
+      await use(hqAdminApi)
+      await hqAdminApi.dispose()
+    },
+    { scope: 'worker' },
+  ],
+})
@@ -0,0 +1,156 @@
+import { Browser, expect } from '@playwright/test'
+import { apiChecked } from '../../config'
+import { env } from '../../env'
+import { test as base } from './generation.fixture'
+import { HqAdminApiClient } from '../hq-admin/api/hq-admin-api.client'
+import { REPLAY_CAMPAIGN_ID } from '../hq-admin/api/har-normaliser'
+import { generateUniqueCampaignName } from '../hq-admin/campaign-name'
+import {
+  createCampaignThroughUi,
+  deleteCampaignThroughUi,
+  ProvisionedCampaign,
+  withHqAdminPage,
+} from '../hq-admin/campaign-provisioning'
+import { StoryboardAndCopyPage } from '../hq-admin/storyboard-and-copy/page-objects/storyboard-and-copy.page'
+
+/**
+ * 'worker' shares one campaign between all tests of a worker,
+ * 'test' provisions a fresh campaign for every test
+ */
+export type CampaignScope = 'worker' | 'test'
+
+/**
+ * Creates the worker campaign on first use, so workers that only run
+ * per-test or TEST_CAMPAIGN_ID tests never provision one
+ */
+type LazyCampaign = {
+  get: () => Promise<string>
+}
+
+type CampaignFixtures = {
+  campaignScope: CampaignScope
+  campaignId: string
+  storyboardPage: StoryboardAndCopyPage
+}
+
+type CampaignWorkerFixtures = {
+  workerCampaign: LazyCampaign
+}
+
+// Storyboard generation can take up to 60 seconds, on top of creating the campaign
+const PROVISION_TIMEOUT = 120000
+const TEARDOWN_TIMEOUT = 30000
+
+/**
+ * Create a campaign and wait for its storyboard to finish generating
+ */
+async function createCampaignThroughApi(hqAdminApi: HqAdminApiClient): Promise<ProvisionedCampaign> {
+  const campaign = await hqAdminApi.createCampaign({ name: generateUniqueCampaignName() })
+
+  try {
+    await hqAdminApi.generateStoryboard(campaign.id)
+    await expect
+      .poll(
+        async () => {
+          return (await hqAdminApi.getCampaign(campaign.id)).storyboardStatus
+        },
+        { timeout: PROVISION_TIMEOUT }
+      )
+      .toBe('completed')
+  } catch (error) {
+    // Don't leave a half-provisioned campaign behind
+    await hqAdminApi.deleteCampaign(campaign.id)
+    throw error
+  }
+
+  return { id: campaign.id, name: campaign.name }
+}
+
+/**
+ * Create a campaign through the API once it was checked against APP_ENV, through the UI before
+ */
+async function createCampaign(
+  hqAdminApi: HqAdminApiClient,
+  browser: Browser
+): Promise<ProvisionedCampaign> {
+  if (apiChecked) {
+    return await createCampaignThroughApi(hqAdminApi)
+  }
+  return await withHqAdminPage(browser, createCampaignThroughUi)
+}
+
+async function deleteCampaign(
+  hqAdminApi: HqAdminApiClient,
+  browser: Browser,
+  campaign: ProvisionedCampaign
+): Promise<void> {
+  if (apiChecked) {
+    await hqAdminApi.deleteCampaign(campaign.id)
+    return
+  }
+  await withHqAdminPage(browser, (page) => {
+    return deleteCampaignThroughUi(page, campaign.name)
+  })
+}
+
+export const test = base.extend<CampaignFixtures, CampaignWorkerFixtures>({
+  campaignScope: ['worker', { option: true }],
+
+  workerCampaign: [
+    async ({ hqAdminApi, browser }, use) => {
+      let campaign: Promise<ProvisionedCampaign> | undefined
+
+      await use({
+        get: async () => {
+          campaign ??= createCampaign(hqAdminApi, browser)
+          return (await campaign).id
+        },
+      })
+
+      const created = await campaign?.catch(() => {
+        return undefined
+      })
+      if (created) {
+        await deleteCampaign(hqAdminApi, browser, created)
+      }
+    },
+    { scope: 'worker', timeout: TEARDOWN_TIMEOUT },
+  ],
+
+  campaignId: [
+    async ({ hqAdminApi, browser, campaignScope, workerCampaign }, use) => {
+      // Recordings rewrite the campaign a test touches first to REPLAY_CAMPAIGN_ID
+      if (env.NETWORK_MODE === 'replay') {
+        await use(String(REPLAY_CAMPAIGN_ID))
+        return
+      }
+
+      // An explicit campaign overrides provisioning and is never deleted
+      if (env.TEST_CAMPAIGN_ID) {
+        await use(env.TEST_CAMPAIGN_ID)
+        return
+      }
+
+      if (campaignScope === 'worker') {
+        await use(await workerCampaign.get())
+        return
+      }
+
+      const campaign = await createCampaign(hqAdminApi, browser)
+      await use(campaign.id)
+      await deleteCampaign(hqAdminApi, browser, campaign)
+    },
+    { timeout: PROVISION_TIMEOUT + TEARDOWN_TIMEOUT },
+  ],
+
+  storyboardPage: async ({ page, campaignId, testData }, use) => {
+    const storyboardPage = new StoryboardAndCopyPage(page, campaignId, testData)
+    const isReady = await storyboardPage.navigateToPage()
+    if (!isReady) {
+      throw new Error(
+        `Campaign ${campaignId} does not exist or Storyboard & Copy tab is not available`
+      )
+    }
+    await use(storyboardPage)
+  },
+})
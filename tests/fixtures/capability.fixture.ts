@@ -0,0 +1,116 @@
+import { TestDetails } from '@playwright/test'
+import { test as base } from './api.fixture'
+import { capabilities, capabilityManifest, Capability } from '../../config'
+import { env } from '../../env'
+import { HqAdminApiClient } from '../hq-admin/api/hq-admin-api.client'
+import { skipTest } from '../hq-admin/skip-reasons'
+
+/**
+ * What the deployed HQ Admin can do, and where that came from for skip reasons
+ */
+type DetectedCapabilities = {
+  available: Capability[]
+  source: string
+  // Why the build could not be asked, when the manifest stands in for it
+  fallbackReason?: string
+}
+
+type CapabilityFixtures = {
+  capabilityGate: void
+}
+
+type CapabilityWorkerFixtures = {
+  capabilities: DetectedCapabilities
+}
+
+const REQUIRES_ANNOTATION = 'requires'
+const CAPABILITIES_ANNOTATION = 'capabilities'
+
+/**
+ * Declare the capabilities a test or describe block needs, it is skipped on builds without them
+ *
+ * @example test.describe('Variant Limit Validation', requires('headlineVariants'), () => {})
+ */
+export function requires(...needed: Capability[]): TestDetails {
+  return {
+    annotation: needed.map((capability) => {
+      return { type: REQUIRES_ANNOTATION, description: capability }
+    }),
+  }
+}
+
+/**
+ * Ask the build for its capabilities, falling back to the manifest in config.ts when it can't
+ * answer, whether the endpoint is missing, failing or answering something else
+ */
+async function detectCapabilities(hqAdminApi: HqAdminApiClient): Promise<DetectedCapabilities> {
+  const manifest = {
+    available: capabilityManifest,
+    source: `the ${env.APP_ENV} capability manifest`,
+  }
+
+  // Replays have no build to ask
+  if (env.NETWORK_MODE === 'replay') {
+    return manifest
+  }
+
+  try {
+    const build = await hqAdminApi.getBuildInfo()
+    return {
+      available: capabilities.filter((capability) => {
+        return build.capabilities.includes(capability)
+      }),
+      source: `HQ Admin ${build.version}`,
+    }
+  } catch (error) {
+    return {
+      ...manifest,
+      fallbackReason: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+export const test = base.extend<CapabilityFixtures, CapabilityWorkerFixtures>({
+  capabilities: [
+    async ({ hqAdminApi }, use) => {
+      await use(await detectCapabilities(hqAdminApi))
+    },
+    { scope: 'worker' },
+  ],
+
+  // Auto fixtures are set up first, so gated tests skip before provisioning anything
+  capabilityGate: [
+    async ({ capabilities }, use, testInfo) => {
+      const needed = testInfo.annotations
+        .filter((annotation) => {
+          return annotation.type === REQUIRES_ANNOTATION
+        })
+        .map((annotation) => {
+          return annotation.description
+        })
+      // Gated tests say where their capabilities came from when the build could not tell
+      if (needed.length > 0 && capabilities.fallbackReason) {
+        testInfo.annotations.push({
+          type: CAPABILITIES_ANNOTATION,
+          description:
+            `${capabilities.source}, the version endpoint failed: ${capabilities.fallbackReason}`,
+        })
+      }
+
+      const missing = needed.filter((capability) => {
+        return !capabilities.available.some((available) => {
+          return available === capability
+        })
+      })
+
+      skipTest(
+        testInfo,
+        missing.length > 0,
+        'feature-gated',
+        `Requires ${missing.join(', ')}, not available according to ${capabilities.source}`
+      )
+      await use()
+    },
+    { auto: true },
+  ],
+})
@@ -0,0 +1,24 @@
+import { test as base } from './role.fixture'
+import {
+  FeatureFlags,
+  formatFeatureFlags,
+  resolveFeatureFlags,
+  setFeatureFlags,
+} from '../hq-admin/feature-flags'
+
+type FlagFixtures = {
+  flags: Partial<FeatureFlags>
+}
+
+export const test = base.extend<FlagFixtures>({
+  // Only the flags a spec cares about, the rest keep their registry defaults
+  flags: [{}, { option: true }],
+
+  context: async ({ context, flags }, use, testInfo) => {
+    const resolved = resolveFeatureFlags(flags)
+    testInfo.annotations.push({ type: 'feature-flags', description: formatFeatureFlags(resolved) })
+
+    await setFeatureFlags(context, resolved)
+    await use(context)
+  },
+})
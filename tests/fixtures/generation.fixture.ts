@@ -0,0 +1,15 @@
+import { test as base } from './test-data.fixture'
+import { GenerationSimulator } from '../hq-admin/generation-simulator'
+
+type GenerationFixtures = {
+  generationSimulator: GenerationSimulator
+}
+
+export const test = base.extend<GenerationFixtures>({
+  // Only intercepts anything once a spec calls simulate(), request it before navigating
+  generationSimulator: async ({ page }, use) => {
+    const generationSimulator = new GenerationSimulator(page)
+    await use(generationSimulator)
+    await generationSimulator.dispose()
+  },
+})
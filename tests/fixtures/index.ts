@@ -0,0 +1,14 @@
+export { test } from './page-errors.fixture'
+export { requires } from './capability.fixture'
+export { skipTest } from '../hq-admin/skip-reasons'
+export { expect } from '@playwright/test'
+export type { CampaignScope } from './campaign.fixture'
+export type { Capability, Role } from '../../config'
+export type { FeatureFlag, FeatureFlags } from '../hq-admin/feature-flags'
+export type { TestDataEntry, TestDataRegistry } from '../hq-admin/test-data-registry'
+export type { GenerationScenario, GenerationSimulator } from '../hq-admin/generation-simulator'
+export type { A11yChecker, A11yIssue } from '../hq-admin/a11y-checker'
+export type { NavigationMeasurement, PerformanceMonitor } from '../hq-admin/performance-monitor'
+export type { ApiRequestRecorder, RecordedApiRequests } from '../hq-admin/api/api-request-recorder'
+export type { AllowedPageError, PageError, PageErrorGuard } from '../hq-admin/page-error-guard'
+export type { SkipReason } from '../hq-admin/skip-reasons'
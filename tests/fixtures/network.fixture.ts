@@ -0,0 +1,128 @@
+import { test as base, TestInfo } from '@playwright/test'
+import fs from 'fs'
+import path from 'path'
+import { api, credentials, roles } from '../../config'
+import { env } from '../../env'
+import {
+  HarFile,
+  HarNormaliser,
+  SEQUENCE_HEADER,
+  sequenceKey,
+} from '../hq-admin/api/har-normaliser'
+
+type NetworkWorkerFixtures = {
+  harRecordings: string[]
+}
+
+// Only API traffic is recorded, the app itself still loads from APP_ENV
+const API_URL_PATTERN = `${api.hqAdmin}/**`
+
+/**
+ * One HAR per test, under __har__/<spec file>/ next to the spec
+ */
+function harPath(testInfo: TestInfo): string {
+  const title = testInfo.titlePath
+    .slice(1)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return path.join(
+    path.dirname(testInfo.file),
+    '__har__',
+    path.basename(testInfo.file, '.ts'),
+    `${title}.har`
+  )
+}
+
+/**
+ * Keep credentials out of recordings, and let replays run with other credentials
+ */
+function createNormaliser(): HarNormaliser {
+  const secrets: Record<string, string> = {}
+  for (const role of roles) {
+    const roleCredentials = credentials.hqAdmin[role]
+    if (roleCredentials) {
+      secrets[roleCredentials.email] = `recorded-${role}@example.com`
+      secrets[roleCredentials.password] = `recorded-${role}-password`
+    }
+  }
+  return new HarNormaliser(secrets)
+}
+
+/**
+ * Highest sequence recorded per request, replays beyond it reuse the last response
+ */
+function readMaxSequences(file: string): Map<string, number> {
+  const har: HarFile = JSON.parse(fs.readFileSync(file, 'utf8'))
+  const maxSequences = new Map<string, number>()
+  for (const { request } of har.log.entries) {
+    const key = sequenceKey(request.method, request.url)
+    maxSequences.set(key, (maxSequences.get(key) ?? 0) + 1)
+  }
+  return maxSequences
+}
+
+export const test = base.extend<{}, NetworkWorkerFixtures>({
+  // HARs are written when their context closes, so normalise them once the worker is done
+  harRecordings: [
+    async ({}, use) => {
+      const recordings: string[] = []
+      await use(recordings)
+
+      for (const file of recordings) {
+        if (!fs.existsSync(file)) {
+          continue
+        }
+        const har: HarFile = JSON.parse(fs.readFileSync(file, 'utf8'))
+        fs.writeFileSync(file, `${JSON.stringify(createNormaliser().normaliseHar(har), null, 2)}\n`)
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  context: async ({ context, harRecordings }, use, testInfo) => {
+    const file = harPath(testInfo)
+
+    if (env.NETWORK_MODE === 'record') {
+      await context.routeFromHAR(file, {
+        url: API_URL_PATTERN,
+        update: true,
+        updateContent: 'embed',
+        updateMode: 'minimal',
+      })
+      harRecordings.push(file)
+    }
+
+    if (env.NETWORK_MODE === 'replay') {
+      if (!fs.existsSync(file)) {
+        throw new Error(`No HAR recording at ${file} - record it first with NETWORK_MODE=record`)
+      }
+
+      const normaliser = createNormaliser()
+      const maxSequences = readMaxSequences(file)
+      const sequences = new Map<string, number>()
+
+      await context.routeFromHAR(file, { url: API_URL_PATTERN, notFound: 'abort' })
+      // Registered last so it runs first, handing routeFromHAR a normalised request
+      await context.route(API_URL_PATTERN, async (route) => {
+        const request = route.request()
+        const url = normaliser.normaliseRequest(request.url())
+        const postData = request.postData()
+        const isJson = request.headers()['content-type']?.includes('json')
+
+        const key = sequenceKey(request.method(), url)
+        const sequence = Math.min((sequences.get(key) ?? 0) + 1, maxSequences.get(key) ?? 1)
+        sequences.set(key, sequence)
+
+        await route.fallback({
+          url,
+          postData: postData && isJson ? normaliser.normaliseRequest(postData) : undefined,
+          headers: { ...request.headers(), [SEQUENCE_HEADER]: String(sequence) },
+        })
+      })
+    }
+
+    await use(context)
+  },
+})
@@ -0,0 +1,31 @@
+import { expect } from '@playwright/test'
+import { test as base } from './api-requests.fixture'
+import { formatPageErrors, PageErrorGuard } from '../hq-admin/page-error-guard'
+
+type PageErrorsFixtures = {
+  pageErrors: PageErrorGuard
+}
+
+export const test = base.extend<PageErrorsFixtures>({
+  // A page can throw or log failed requests while the assertions still pass, so any error the page
+  // reports fails the test unless it is known noise, see page-error-allowlist.ts
+  pageErrors: [
+    async ({ page }, use, testInfo) => {
+      const pageErrors = new PageErrorGuard(page)
+      await pageErrors.start()
+      await use(pageErrors)
+      pageErrors.stop()
+
+      if (pageErrors.errors.length === 0) {
+        return
+      }
+      await testInfo.attach('page-errors.txt', {
+        body: formatPageErrors(pageErrors.errors),
+        contentType: 'text/plain',
+      })
+      const unexpected = pageErrors.unexpected
+      expect(unexpected, `The page reported errors:\n${formatPageErrors(unexpected)}`).toEqual([])
+    },
+    { auto: true },
+  ],
+})
@@ -0,0 +1,40 @@
+import { expect } from '@playwright/test'
+import { test as base } from './a11y.fixture'
+import { performanceBudgets } from '../../config'
+import { formatMeasurements, overBudget, PerformanceMonitor } from '../hq-admin/performance-monitor'
+
+type PerformanceFixtures = {
+  performanceMonitor: PerformanceMonitor
+}
+
+export const test = base.extend<PerformanceFixtures>({
+  // Measures every page object navigation of the test and fails it when one goes over its budget in config,
+  // so backend and bundle regressions show up without a dedicated test
+  performanceMonitor: [
+    async ({ page }, use, testInfo) => {
+      const monitor = new PerformanceMonitor(page)
+      await monitor.start()
+      await use(monitor)
+      monitor.stop()
+
+      const measurements = monitor.measurements
+      if (measurements.length === 0) {
+        return
+      }
+      await testInfo.attach('performance.txt', {
+        body: formatMeasurements(measurements),
+        contentType: 'text/plain',
+      })
+      await testInfo.attach('performance.json', {
+        body: JSON.stringify(measurements, null, 2),
+        contentType: 'application/json',
+      })
+
+      const exceeded = measurements.flatMap((measurement) => {
+        return overBudget(measurement, performanceBudgets[measurement.page])
+      })
+      expect(exceeded, `Performance budgets exceeded:\n${exceeded.join('\n')}`).toEqual([])
+    },
+    { auto: true },
+  ],
+})
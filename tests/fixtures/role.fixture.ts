@@ -0,0 +1,70 @@
+import { test as base } from './network.fixture'
+import { api, authFile, credentials, domain, Role } from '../../config'
+import { env } from '../../env'
+import {
+  ensureStorageState,
+  reauthenticate,
+  TOKEN_STORAGE_KEY,
+} from '../hq-admin/api/hq-admin-auth'
+import { skipTest } from '../hq-admin/skip-reasons'
+
+type RoleFixtures = {
+  role: Role
+}
+
+export const test = base.extend<RoleFixtures>({
+  role: ['admin', { option: true }],
+
+  // Pages start logged in as the role, with a token that won't expire mid-test
+  storageState: async ({ role }, use, testInfo) => {
+    skipTest(
+      testInfo,
+      !credentials.hqAdmin[role],
+      'environment-missing',
+      `No HQ Admin credentials for the ${role} role in this environment`
+    )
+    await ensureStorageState(role)
+    await use(authFile.hqAdmin[role])
+  },
+
+  // A 401 logs the role in again and retries, instead of the app bouncing to its login page.
+  // Live only, recordings would capture the retried request twice
+  context: async ({ context, role }, use) => {
+    if (env.NETWORK_MODE === 'live') {
+      await context.route(`${api.hqAdmin}/**`, async (route) => {
+        const response = await route.fetch()
+        if (response.status() !== 401) {
+          await route.fulfill({ response })
+          return
+        }
+
+        const token = await reauthenticate(role)
+        // Through the context's pages, requests of a service worker have no frame to go through
+        const appPages = context.pages().filter((page) => {
+          return page.url().startsWith(domain.hqAdmin)
+        })
+        await Promise.all(
+          appPages.map(async (page) => {
+            // The origin's pages share localStorage, one navigating away meanwhile can be left out
+            await page
+              .evaluate(
+                ([key, value]) => {
+                  localStorage.setItem(key, value)
+                },
+                [TOKEN_STORAGE_KEY, token]
+              )
+              .catch(() => {
+                return undefined
+              })
+          })
+        )
+        const headers = { ...route.request().headers(), authorization: `Bearer ${token}` }
+        await route.fulfill({ response: await route.fetch({ headers }) })
+      })
+    }
+
+    await use(context)
+    // Requests still in flight when the test ends have nobody left to answer them
+    await context.unrouteAll({ behavior: 'ignoreErrors' })
+  },
+})
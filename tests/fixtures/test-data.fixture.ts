@@ -0,0 +1,38 @@
+import { test as base } from './capability.fixture'
+import { TestDataRegistry } from '../hq-admin/test-data-registry'
+
+type TestDataFixtures = {
+  testData: TestDataRegistry
+}
+
+const CLEANUP_TIMEOUT = 30000
+
+export const test = base.extend<TestDataFixtures>({
+  // Teardown runs for failed tests too, so nothing a test recorded outlives it
+  testData: [
+    async ({ hqAdminApi, browser }, use, testInfo) => {
+      const testData = new TestDataRegistry(hqAdminApi, testInfo, browser)
+      await use(testData)
+
+      await testData.cleanup()
+      if (testData.entries.length === 0) {
+        return
+      }
+
+      const leaks = testData.entries.filter((entry) => {
+        return entry.outcome === 'failed'
+      })
+      if (leaks.length > 0) {
+        testInfo.annotations.push({
+          type: 'test-data-leak',
+          description: `${leaks.length} entities could not be cleaned up, see test-data.json`,
+        })
+      }
+      await testInfo.attach('test-data.json', {
+        body: JSON.stringify(testData.toManifest(), null, 2),
+        contentType: 'application/json',
+      })
+    },
+    { timeout: CLEANUP_TIMEOUT },
+  ],
+})
@@ -0,0 +1,37 @@
+import { apiChecked } from '../config'
+import { env } from '../env'
+import { HqAdminApiClient } from './hq-admin/api/hq-admin-api.client'
+import { cleanOrphanedCampaigns, formatJanitorSummary } from './hq-admin/campaign-janitor'
+import { DEFAULT_CAMPAIGN_PREFIX } from './hq-admin/campaign-name'
+
+/**
+ * Sweep the campaigns the run left behind once it is over
+ *
+ * A global setup returning its teardown, so it runs before the mock server's teardown
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  return async () => {
+    // Replays never created anything
+    if (env.NETWORK_MODE === 'replay') {
+      return
+    }
+    // Campaigns were cleaned up through the UI as the run went, see apiChecked in config.ts
+    if (!apiChecked) {
+      console.log(`🧹 Campaign janitor: skipped, the HQ Admin API of ${env.APP_ENV} is not checked yet`)
+      return
+    }
+
+    const hqAdminApi = await HqAdminApiClient.create()
+    try {
+      const summary = await cleanOrphanedCampaigns(hqAdminApi, {
+        prefix: DEFAULT_CAMPAIGN_PREFIX,
+        maxAgeMs: env.JANITOR_MAX_AGE_HOURS * 60 * 60 * 1000,
+        runTag: env.TEST_RUN_TAG,
+        dryRun: env.JANITOR_DRY_RUN,
+      })
+      console.log(formatJanitorSummary(summary))
+    } finally {
+      await hqAdminApi.dispose()
+    }
+  }
+}
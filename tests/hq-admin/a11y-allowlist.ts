@@ -0,0 +1,32 @@
+import { AppEnv, env } from '../../env'
+import { AllowedA11yIssue } from './a11y-checker'
+
+/**
+ * Accessibility issues known per environment, by check and target
+ *
+ * Every entry says why, remove it once the issue is fixed. The mock server only stands in for
+ * HQ Admin, so its gaps are listed here rather than fixed to make the checks pass
+ */
+const a11yAllowlistByEnv: Record<AppEnv, AllowedA11yIssue[]> = {
+  // Nothing is known yet. A failing check prints each issue as [check] target: message. Run
+  // pnpm playwright test --grep @a11y against the environment, then add an entry per issue the
+  // release won't fix, with its check, a target pattern as narrow as that line and the ticket
+  // in the reason
+  local: [],
+  dev: [],
+  staging: [],
+  mock: [
+    {
+      check: 'name',
+      target: /> grid > rowgroup > row "[^"]*" > columnheader$/,
+      reason: 'The row selection column of the mock campaigns table has no label',
+    },
+    {
+      check: 'focus-trap',
+      target: /^dialog "/,
+      reason: 'Modals of the mock neither take the focus nor keep it inside',
+    },
+  ],
+}
+
+export const a11yAllowlist = a11yAllowlistByEnv[env.APP_ENV]
@@ -0,0 +1,453 @@
+import { Locator, Page } from '@playwright/test'
+import { a11yAllowlist } from './a11y-allowlist'
+
+/**
+ * An accessibility problem, by the check that found it
+ *
+ * target is where: an ARIA path like main > grid > columnheader, an element ID or the copy of a text
+ */
+export type A11yIssue = {
+  check: 'name' | 'duplicate-id' | 'focus-trap' | 'contrast'
+  target: string
+  message: string
+  // Why it is a known issue of the environment, when it is
+  allowed?: string
+}
+
+/**
+ * A known issue, matched on the check, target and message of an issue
+ */
+export type AllowedA11yIssue = {
+  check?: A11yIssue['check']
+  target: RegExp
+  // Any message when not given
+  message?: RegExp
+  reason: string
+}
+
+// Roles that are unusable without an accessible name, to screen readers or to getByRole()
+const NAMED_ROLES = new Set([
+  'button',
+  'checkbox',
+  'columnheader',
+  'combobox',
+  'dialog',
+  'img',
+  'link',
+  'menuitem',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+])
+
+// Roles whose value follows the name in an ARIA snapshot, it's user data and left out of baselines
+const VALUE_ROLES = new Set(['combobox', 'searchbox', 'spinbutton', 'textbox'])
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+// WCAG AA contrast, large text is at least 24px, or 18.66px and bold
+const MIN_CONTRAST = 4.5
+const MIN_LARGE_TEXT_CONTRAST = 3
+
+// Share of the background darker / lighter than the rest that may be below the contrast,
+// anti-aliased edges and a stray pixel of a neighbouring element don't fail the check
+const CONTRAST_OUTLIERS = 0.1
+
+// - role "name" [attributes]: text, the name and everything after it optional
+const SNAPSHOT_LINE = /^(\s*)- ([a-z]+)(?: "((?:[^"\\]|\\.)*)")?(.*)$/
+
+type SnapshotNode = {
+  line: string
+  role?: string
+  name?: string
+  children: SnapshotNode[]
+}
+
+type TextColor = {
+  index: number
+  text: string
+  color: [number, number, number]
+  large: boolean
+  box: { x: number; y: number; width: number; height: number }
+}
+
+/**
+ * Offline accessibility checks, built on Playwright's ARIA snapshots and the DOM of the page
+ *
+ * The checks return the issues that are not known issues of the environment, see
+ * a11y-allowlist.ts. Every issue found is kept for the report, see the a11y fixture
+ */
+export class A11yChecker {
+  private readonly page: Page
+  private readonly allowlist: AllowedA11yIssue[]
+  private readonly found: A11yIssue[] = []
+
+  constructor(page: Page, allowlist: AllowedA11yIssue[] = a11yAllowlist) {
+    this.page = page
+    this.allowlist = allowlist
+  }
+
+  /**
+   * Every issue the checks of this test found, allowed or not, e.g. for the report
+   */
+  get issues(): A11yIssue[] {
+    return [...this.found]
+  }
+
+  // ==================== Names and IDs ====================
+
+  /**
+   * Controls, images, dialogs and column headers within a scope without an accessible name
+   */
+  async findMissingNames(scope: Locator): Promise<A11yIssue[]> {
+    const issues: A11yIssue[] = []
+    const visit = (nodes: SnapshotNode[], path: string[]): void => {
+      for (const node of nodes) {
+        if (!node.role) {
+          continue
+        }
+        const step = node.name ? `${node.role} "${node.name}"` : node.role
+        if (NAMED_ROLES.has(node.role) && !node.name) {
+          issues.push({
+            check: 'name',
+            target: [...path, step].join(' > '),
+            message: `${node.role} has no accessible name`,
+          })
+        }
+        visit(node.children, [...path, step])
+      }
+    }
+    visit(parseAriaSnapshot(await scope.ariaSnapshot()), [])
+    return this.record(issues)
+  }
+
+  /**
+   * IDs more than one element of the page has, labels and aria-labelledby point at the first only
+   */
+  async findDuplicateIds(): Promise<A11yIssue[]> {
+    const counts = await this.page.evaluate(() => {
+      const byId: Record<string, number> = {}
+      for (const element of document.querySelectorAll('[id]')) {
+        byId[element.id] = (byId[element.id] ?? 0) + 1
+      }
+      return byId
+    })
+    const issues = Object.entries(counts)
+      .filter(([, count]) => {
+        return count > 1
+      })
+      .map(([id, count]): A11yIssue => {
+        return { check: 'duplicate-id', target: `#${id}`, message: `${count} elements have the ID ${id}` }
+      })
+    return this.record(issues)
+  }
+
+  // ==================== Focus ====================
+
+  /**
+   * Check that an open dialog has the focus and Tab / Shift+Tab cycle through it without leaving
+   *
+   * Tabs once around the dialog and a little more in each direction
+   */
+  async findFocusTrapIssues(dialog: Locator): Promise<A11yIssue[]> {
+    const [node] = parseAriaSnapshot(await dialog.ariaSnapshot())
+    const target = node?.name ? `dialog "${node.name}"` : 'dialog'
+    const issues: A11yIssue[] = []
+
+    if (!(await this.hasFocusWithin(dialog))) {
+      issues.push({ check: 'focus-trap', target, message: `Focus stays on ${await this.describeFocus()} on open` })
+      return this.record(issues)
+    }
+
+    const presses =
+      (await dialog.evaluate((element, selector) => {
+        return element.querySelectorAll(selector).length
+      }, FOCUSABLE)) + 2
+    for (const key of ['Tab', 'Shift+Tab']) {
+      for (let i = 1; i <= presses; i++) {
+        await this.page.keyboard.press(key)
+        if (!(await this.hasFocusWithin(dialog))) {
+          issues.push({
+            check: 'focus-trap',
+            target,
+            message: `${key} ${i} time(s) moves the focus out of the dialog, to ${await this.describeFocus()}`,
+          })
+          break
+        }
+      }
+    }
+    return this.record(issues)
+  }
+
+  private async hasFocusWithin(element: Locator): Promise<boolean> {
+    return await element.evaluate((root) => {
+      return root.contains(document.activeElement)
+    })
+  }
+
+  private async describeFocus(): Promise<string> {
+    return await this.page.evaluate(() => {
+      const element = document.activeElement
+      if (!element || element === document.body) {
+        return 'the page'
+      }
+      const label = element.getAttribute('aria-label') ?? element.textContent?.trim().slice(0, 40)
+      return label ? `${element.tagName.toLowerCase()} "${label}"` : element.tagName.toLowerCase()
+    })
+  }
+
+  // ==================== Contrast ====================
+
+  /**
+   * Text within a scope with too little contrast against what is behind it, WCAG AA
+   *
+   * The background is read from a screenshot with the text hidden, so text over images
+   * and gradients is checked against what is actually rendered behind it
+   */
+  async findLowContrast(scope: Locator): Promise<A11yIssue[]> {
+    const texts = await scope.locator('*').evaluateAll((elements) => {
+      const parseColor = (value: string): [number, number, number] => {
+        const [r = 0, g = 0, b = 0] = (value.match(/[\d.]+/g) ?? []).map(Number)
+        return [r, g, b]
+      }
+      return elements.flatMap((element, index) => {
+        const ownText = [...element.childNodes]
+          .filter((node) => {
+            return node.nodeType === Node.TEXT_NODE
+          })
+          .map((node) => {
+            return node.textContent ?? ''
+          })
+          .join('')
+          .trim()
+        const rect = element.getBoundingClientRect()
+        const style = getComputedStyle(element)
+        if (!ownText || rect.width === 0 || rect.height === 0 || style.visibility !== 'visible') {
+          return []
+        }
+        const fontSize = parseFloat(style.fontSize)
+        const bold = Number(style.fontWeight) >= 700
+        return [
+          {
+            index,
+            text: ownText.slice(0, 40),
+            color: parseColor(style.color),
+            large: fontSize >= 24 || (fontSize >= 18.66 && bold),
+            box: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          },
+        ]
+      })
+    })
+    if (texts.length === 0) {
+      return []
+    }
+
+    const box = await scope.boundingBox()
+    if (!box) {
+      return []
+    }
+    const background = await this.screenshotWithoutText(scope, texts)
+
+    const ratios = await this.page.evaluate(
+      async ({ png, scope, areas, outliers }) => {
+        const bytes = Uint8Array.from(atob(png), (char) => {
+          return char.charCodeAt(0)
+        })
+        const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/png' }))
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+        const context = canvas.getContext('2d')
+        if (!context) {
+          return []
+        }
+        context.drawImage(bitmap, 0, 0)
+        // Device pixels per CSS pixel
+        const scale = bitmap.width / scope.width
+
+        const luminance = ([r, g, b]: number[]): number => {
+          const [lr, lg, lb] = [r, g, b].map((channel) => {
+            const c = channel / 255
+            return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+          })
+          return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb
+        }
+
+        return areas.map(({ box, color }) => {
+          const x = Math.max(0, Math.floor((box.x - scope.x) * scale))
+          const y = Math.max(0, Math.floor((box.y - scope.y) * scale))
+          const width = Math.min(bitmap.width - x, Math.ceil(box.width * scale))
+          const height = Math.min(bitmap.height - y, Math.ceil(box.height * scale))
+          // Outside the scope, e.g. overflowing it
+          if (width <= 0 || height <= 0) {
+            return null
+          }
+          const textLuminance = luminance(color)
+          const { data } = context.getImageData(x, y, width, height)
+          const contrasts: number[] = []
+          for (let i = 0; i < data.length; i += 4) {
+            const pixel = luminance([data[i], data[i + 1], data[i + 2]])
+            const [light, dark] = pixel > textLuminance ? [pixel, textLuminance] : [textLuminance, pixel]
+            contrasts.push((light + 0.05) / (dark + 0.05))
+          }
+          contrasts.sort((a, b) => {
+            return a - b
+          })
+          return contrasts[Math.floor(contrasts.length * outliers)]
+        })
+      },
+      {
+        png: background.toString('base64'),
+        scope: box,
+        areas: texts.map(({ box, color }) => {
+          return { box, color }
+        }),
+        outliers: CONTRAST_OUTLIERS,
+      }
+    )
+
+    const issues: A11yIssue[] = []
+    for (const [i, text] of texts.entries()) {
+      const ratio = ratios[i]
+      const required = text.large ? MIN_LARGE_TEXT_CONTRAST : MIN_CONTRAST
+      if (ratio !== null && ratio !== undefined && ratio < required) {
+        issues.push({
+          check: 'contrast',
+          target: `"${text.text}"`,
+          message: `Contrast ${ratio.toFixed(2)}:1, at least ${required}:1 needed`,
+        })
+      }
+    }
+    return this.record(issues)
+  }
+
+  private async screenshotWithoutText(scope: Locator, texts: TextColor[]): Promise<Buffer> {
+    const indexes = texts.map((text) => {
+      return text.index
+    })
+    const hide = async (hidden: boolean): Promise<void> => {
+      await scope.locator('*').evaluateAll(
+        (elements, { indexes, hidden }) => {
+          for (const index of indexes) {
+            const element = elements[index] as HTMLElement
+            if (hidden) {
+              element.dataset.a11yColor = element.style.color
+              element.style.color = 'transparent'
+            } else {
+              element.style.color = element.dataset.a11yColor ?? ''
+              delete element.dataset.a11yColor
+            }
+          }
+        },
+        { indexes, hidden }
+      )
+    }
+    await hide(true)
+    try {
+      return await scope.screenshot({ animations: 'disabled' })
+    } finally {
+      await hide(false)
+    }
+  }
+
+  // ==================== ARIA Baselines ====================
+
+  /**
+   * The ARIA snapshot of a scope without what changes from run to run, to compare with a baseline
+   *
+   * Values of text fields and the rows of tables are left out, roles, names and states stay
+   */
+  async ariaBaseline(scope: Locator): Promise<string> {
+    const nodes = parseAriaSnapshot(await scope.ariaSnapshot())
+    return `${printAriaSnapshot(withoutData(nodes))}\n`
+  }
+
+  private record(issues: A11yIssue[]): A11yIssue[] {
+    const checked = issues.map((issue) => {
+      const allowed = this.allowlist.find((candidate) => {
+        return (
+          (candidate.check === undefined || candidate.check === issue.check) &&
+          candidate.target.test(issue.target) &&
+          (candidate.message === undefined || candidate.message.test(issue.message))
+        )
+      })
+      return { ...issue, allowed: allowed?.reason }
+    })
+    this.found.push(...checked)
+    return checked.filter((issue) => {
+      return issue.allowed === undefined
+    })
+  }
+}
+
+/**
+ * The issues one per line, e.g. for a failure message
+ */
+export function formatA11yIssues(issues: A11yIssue[]): string {
+  if (issues.length === 0) {
+    return 'No accessibility issues'
+  }
+  return issues
+    .map(({ check, target, message, allowed }) => {
+      const known = allowed === undefined ? '' : ` (allowed: ${allowed})`
+      return `[${check}] ${target}: ${message}${known}`
+    })
+    .join('\n')
+}
+
+function parseAriaSnapshot(snapshot: string): SnapshotNode[] {
+  const root: SnapshotNode = { line: '', children: [] }
+  const stack: { indent: number; node: SnapshotNode }[] = [{ indent: -1, node: root }]
+  for (const line of snapshot.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    const indent = line.length - line.trimStart().length
+    const match = SNAPSHOT_LINE.exec(line)
+    const node: SnapshotNode = {
+      line: line.trimStart(),
+      role: match?.[2],
+      name: match?.[3],
+      children: [],
+    }
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop()
+    }
+    stack[stack.length - 1].node.children.push(node)
+    stack.push({ indent, node })
+  }
+  return root.children
+}
+
+function withoutData(nodes: SnapshotNode[]): SnapshotNode[] {
+  return nodes
+    .filter((node) => {
+      // Data rows, the header row has the column headers
+      return !(node.role === 'row' && !hasRole(node, 'columnheader'))
+    })
+    .map((node) => {
+      if (node.role && VALUE_ROLES.has(node.role)) {
+        return { ...node, line: node.line.replace(/: .*$/, ''), children: withoutData(node.children) }
+      }
+      return { ...node, children: withoutData(node.children) }
+    })
+}
+
+function hasRole(node: SnapshotNode, role: string): boolean {
+  return node.children.some((child) => {
+    return child.role === role || hasRole(child, role)
+  })
+}
+
+function printAriaSnapshot(nodes: SnapshotNode[], indent: string = ''): string {
+  return nodes
+    .map((node) => {
+      const children = printAriaSnapshot(node.children, `${indent}  `)
+      return children ? `${indent}${node.line}\n${children}` : `${indent}${node.line}`
+    })
+    .join('\n')
+}
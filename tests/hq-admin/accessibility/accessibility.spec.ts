@@ -0,0 +1,100 @@
+import { test, expect, requires } from '../../fixtures'
+import { formatA11yIssues } from '../a11y-checker'
+import { CampaignTablePage } from '../campaign-lifecycle/page-objects/campaign-table.page'
+
+/**
+ * Offline accessibility checks of HQ Admin, see a11y-checker.ts for what each one looks at
+ *
+ * ARIA baselines are per APP_ENV in tests/__snapshots__, update them after an intended change
+ * with pnpm test:a11y:update. A missing baseline fails on CI like a mismatch, after the other
+ * checks ran. Known issues of an environment are in a11y-allowlist.ts
+ */
+test.describe('Accessibility', { tag: '@a11y' }, () => {
+  test('campaigns table should name its controls and match its ARIA baseline', async ({
+    page,
+    a11y,
+    testData,
+  }) => {
+    const campaignTablePage = new CampaignTablePage(page, testData)
+    await campaignTablePage.navigateToPage()
+    const main = page.getByRole('main')
+
+    const missingNames = await a11y.findMissingNames(main)
+    expect.soft(missingNames, formatA11yIssues(missingNames)).toEqual([])
+    const duplicateIds = await a11y.findDuplicateIds()
+    expect.soft(duplicateIds, formatA11yIssues(duplicateIds)).toEqual([])
+    expect(await a11y.ariaBaseline(main)).toMatchSnapshot('campaigns-table.yml')
+  })
+
+  test('storyboard form should name its controls and match its ARIA baseline', async ({
+    storyboardPage,
+    a11y,
+  }) => {
+    const missingNames = await a11y.findMissingNames(storyboardPage.form)
+    expect.soft(missingNames, formatA11yIssues(missingNames)).toEqual([])
+    const duplicateIds = await a11y.findDuplicateIds()
+    expect.soft(duplicateIds, formatA11yIssues(duplicateIds)).toEqual([])
+    expect(await a11y.ariaBaseline(storyboardPage.form)).toMatchSnapshot('storyboard-form.yml')
+  })
+
+  test('Regenerate Preview modal should keep the focus inside', async ({
+    storyboardPage,
+    generationSimulator,
+    a11y,
+  }) => {
+    const { previewPanel, regenerateModal } = storyboardPage
+    await generationSimulator.simulate('preview', { state: 'completed' })
+    // Generate Again only shows once there is a preview
+    if (await previewPanel.isGenerateButtonVisible()) {
+      await storyboardPage.generatePreview()
+    }
+
+    await previewPanel.clickGenerateAgain()
+    await regenerateModal.waitForVisible()
+
+    const missingNames = await a11y.findMissingNames(regenerateModal.locator)
+    expect.soft(missingNames, formatA11yIssues(missingNames)).toEqual([])
+    const focusIssues = await a11y.findFocusTrapIssues(regenerateModal.locator)
+    expect(focusIssues, formatA11yIssues(focusIssues)).toEqual([])
+
+    await regenerateModal.clickCancel()
+  })
+
+  test(
+    'Campaign Style Settings modal should keep the focus inside',
+    requires('styleSettings'),
+    async ({ storyboardPage, a11y }) => {
+      const { previewPanel, styleSettingsModal } = storyboardPage
+      await previewPanel.clickConfigureStyles()
+      await styleSettingsModal.waitForVisible()
+
+      const missingNames = await a11y.findMissingNames(styleSettingsModal.locator)
+      expect.soft(missingNames, formatA11yIssues(missingNames)).toEqual([])
+      const focusIssues = await a11y.findFocusTrapIssues(styleSettingsModal.locator)
+      expect(focusIssues, formatA11yIssues(focusIssues)).toEqual([])
+
+      await styleSettingsModal.clickCancel()
+    }
+  )
+
+  for (const orientation of ['portrait', 'landscape'] as const) {
+    test(`${orientation} preview text should contrast with its background`, async ({
+      storyboardPage,
+      generationSimulator,
+      a11y,
+    }) => {
+      const { previewPanel } = storyboardPage
+      await previewPanel.waitForActions()
+      if (orientation === 'landscape') {
+        await previewPanel.selectLandscape()
+      } else {
+        await previewPanel.selectPortrait()
+      }
+      await generationSimulator.simulate('preview', { state: 'completed' })
+      await storyboardPage.generatePreview()
+
+      const lowContrast = await a11y.findLowContrast(previewPanel.container)
+      expect(lowContrast, formatA11yIssues(lowContrast)).toEqual([])
+    })
+  }
+})
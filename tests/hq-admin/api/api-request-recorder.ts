@@ -0,0 +1,164 @@
+import { expect, Page, Request } from '@playwright/test'
+import { api } from '../../../config'
+import { HqAdminEndpoint, matchesRequest } from './hq-admin-responses'
+
+/**
+ * An HQ Admin API request an action made
+ */
+export type RecordedApiRequest = {
+  request: Request
+  // Below the API root, with the query, e.g. campaigns/7482/previews?orientation=landscape
+  call: string
+  // Since the action started
+  atMs: number
+}
+
+const DEFAULT_DUPLICATE_WINDOW = 500
+
+/**
+ * The HQ Admin API requests of one action, with the limits specs put on them
+ *
+ * A failed limit prints every request of the action, so a redundant refetch shows where it came from
+ */
+export class RecordedApiRequests {
+  readonly description: string
+  readonly requests: RecordedApiRequest[]
+
+  constructor(description: string, requests: RecordedApiRequest[]) {
+    this.description = description
+    this.requests = requests
+  }
+
+  /**
+   * The requests that call the endpoint
+   */
+  matching(endpoint: HqAdminEndpoint): RecordedApiRequest[] {
+    return this.requests.filter(({ request }) => {
+      return matchesRequest(request, endpoint)
+    })
+  }
+
+  /**
+   * Expect the action to call the endpoint no more than max times
+   */
+  expectAtMost(endpoint: HqAdminEndpoint, max: number): void {
+    const count = this.matching(endpoint).length
+    expect(
+      count,
+      `${this.description} made ${count} ${endpoint.description} request(s), at most ${max} expected:\n${this.format()}`
+    ).toBeLessThanOrEqual(max)
+  }
+
+  /**
+   * Expect the action to call the endpoint exactly count times, so a request that went missing
+   * or to another URL fails too rather than passing an upper limit
+   */
+  expectExactly(endpoint: HqAdminEndpoint, count: number): void {
+    const actual = this.matching(endpoint).length
+    expect(
+      actual,
+      `${this.description} made ${actual} ${endpoint.description} request(s), ${count} expected:\n${this.format()}`
+    ).toBe(count)
+  }
+
+  /**
+   * Requests repeating the method and URL of an earlier one within the window
+   */
+  duplicates(windowMs: number = DEFAULT_DUPLICATE_WINDOW): RecordedApiRequest[] {
+    return this.requests.filter((recorded, index) => {
+      return this.requests.slice(0, index).some((earlier) => {
+        return (
+          earlier.request.method() === recorded.request.method() &&
+          earlier.call === recorded.call &&
+          recorded.atMs - earlier.atMs <= windowMs
+        )
+      })
+    })
+  }
+
+  /**
+   * Expect no request to repeat an earlier one within the window, e.g. a refetch storm
+   */
+  expectNoDuplicates(windowMs: number = DEFAULT_DUPLICATE_WINDOW): void {
+    const duplicates = this.duplicates(windowMs)
+    expect(
+      duplicates.map(formatRequest),
+      `${this.description} repeated requests within ${windowMs}ms:\n${this.format()}`
+    ).toEqual([])
+  }
+
+  /**
+   * One request per line, in order
+   */
+  format(): string {
+    if (this.requests.length === 0) {
+      return '  (no HQ Admin API requests)'
+    }
+    return this.requests
+      .map((recorded) => {
+        return `  ${formatRequest(recorded)}`
+      })
+      .join('\n')
+  }
+}
+
+function formatRequest({ request, call, atMs }: RecordedApiRequest): string {
+  return `+${atMs}ms ${request.method()} ${call}`
+}
+
+/**
+ * Records the HQ Admin API requests made while an action runs, see the api-requests fixture
+ */
+export class ApiRequestRecorder {
+  private readonly page: Page
+  private readonly recorded: RecordedApiRequests[] = []
+
+  constructor(page: Page) {
+    this.page = page
+  }
+
+  /**
+   * Run the action and return the requests it made
+   *
+   * Requests made after the action returns don't count, so the action should wait for
+   * whatever the refetches would update
+   */
+  async record(description: string, action: () => Promise<unknown>): Promise<RecordedApiRequests> {
+    const requests: RecordedApiRequest[] = []
+    const startedAt = Date.now()
+    const onRequest = (request: Request): void => {
+      if (!request.url().startsWith(`${api.hqAdmin}/`)) {
+        return
+      }
+      requests.push({ request, call: request.url().slice(api.hqAdmin.length + 1), atMs: Date.now() - startedAt })
+    }
+
+    this.page.on('request', onRequest)
+    try {
+      await action()
+    } finally {
+      this.page.off('request', onRequest)
+    }
+    const recording = new RecordedApiRequests(description, requests)
+    this.recorded.push(recording)
+    return recording
+  }
+
+  /**
+   * Every recording so far, in order
+   */
+  get recordings(): RecordedApiRequests[] {
+    return [...this.recorded]
+  }
+}
+
+/**
+ * The requests of every recording, for the report
+ */
+export function formatRecordings(recordings: RecordedApiRequests[]): string {
+  return recordings
+    .map((recording) => {
+      return `${recording.description}\n${recording.format()}`
+    })
+    .join('\n\n')
+}
@@ -0,0 +1,270 @@
+import { copyFieldSchema } from './schemas'
+
+type HarHeader = {
+  name: string
+  value: string
+}
+
+type HarEntry = {
+  startedDateTime?: string
+  time?: number
+  request: {
+    method: string
+    url: string
+    headers: HarHeader[]
+    queryString?: HarHeader[]
+    cookies?: unknown[]
+    postData?: { mimeType?: string; text?: string }
+  }
+  response: {
+    headers: HarHeader[]
+    cookies?: unknown[]
+    content: { mimeType?: string; text?: string; encoding?: string }
+  }
+}
+
+export type HarFile = {
+  log: { entries: HarEntry[] }
+}
+
+/**
+ * Campaign IDs are rewritten to REPLAY_CAMPAIGN_ID, REPLAY_CAMPAIGN_ID + 1, ...
+ * in the order a test first touches them
+ */
+export const REPLAY_CAMPAIGN_ID = 1000001
+
+/**
+ * Playwright picks the first HAR entry for repeated requests to the same URL, so every
+ * entry is tagged with its occurrence and replays send the matching tag
+ */
+export const SEQUENCE_HEADER = 'x-har-sequence'
+
+/**
+ * Run tag of recorded campaign names, and of the names replays generate
+ */
+export const REPLAY_RUN_TAG = '00000000'
+
+const FIXED_TIMESTAMP = '2000-01-01T00:00:00.000Z'
+const FIXED_EPOCH_MS = String(Date.parse(FIXED_TIMESTAMP))
+
+const encodeTokenPart = (value: object): string => {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+/**
+ * Unsigned JWT that never expires, recorded tokens are rewritten to it and replays log in with it
+ */
+export const REPLAY_ACCESS_TOKEN = `${encodeTokenPart({ alg: 'none', typ: 'JWT' })}.${encodeTokenPart({
+  sub: 'recorded-user',
+  exp: 4102444800,
+})}.`
+
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})/g
+// Date.now() values, which specs put into copy and prompts to make them unique
+const EPOCH_MS_PATTERN = /\b1[5-9]\d{11}\b/g
+const TOKEN_PATTERN = /eyJ[\w+/=-]*\.eyJ[\w+/=-]*\.[\w+/=-]*/g
+// The random suffix and run tag of generateUniqueCampaignName(), also when URL-encoded
+const CAMPAIGN_NAME_PATTERN =
+  /( |%20|\+)-( |%20|\+)([0-9a-f]{8})\b(?:( |%20|\+)(\[|%5B)[0-9a-f]{8}(\]|%5D))?/g
+const CAMPAIGN_URL_PATTERN = /\/campaigns\/(\d+)(?=[/?#]|$)/g
+const CAMPAIGN_ID_FIELD_PATTERN = /"(id|campaignId)"(\s*:\s*"?)(\d+)/g
+const DROPPED_HEADERS = ['cookie', 'set-cookie', 'date', 'content-length']
+const COPY_FIELD_KEYS = ['headline', 'subHeadline', 'bodyCopy', 'ctaCopy']
+
+/**
+ * Suffix of the nth campaign name a test generates, once normalised
+ */
+export function campaignNameSuffix(index: number): string {
+  return String(index).padStart(8, '0')
+}
+
+/**
+ * Key requests the way Playwright matches HAR entries, by method and URL
+ */
+export function sequenceKey(method: string, url: string): string {
+  return `${method} ${url}`
+}
+
+const replaceJsonString = (text: string, value: string, replacement: string): string => {
+  return text.split(JSON.stringify(value)).join(JSON.stringify(replacement))
+}
+
+const parseJson = (text: string | undefined): unknown => {
+  try {
+    return text ? JSON.parse(text) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Collect the copy strings of every storyboard-shaped object in a JSON body
+ */
+const collectCopy = (value: unknown, copy: string[]): void => {
+  if (!value || typeof value !== 'object') {
+    return
+  }
+
+  for (const [key, field] of Object.entries(value)) {
+    const copyField = copyFieldSchema.safeParse(field)
+    if (COPY_FIELD_KEYS.includes(key) && copyField.success) {
+      copy.push(copyField.data.default, ...copyField.data.variants)
+    } else if (key === 'legalCopy' && typeof field === 'string') {
+      copy.push(field)
+    } else {
+      collectCopy(field, copy)
+    }
+  }
+}
+
+/**
+ * Rewrites what differs between runs - campaign IDs and names, timestamps, tokens,
+ * credentials and AI copy - to stable placeholders, so recorded HAR entries
+ * still match the requests a replay makes
+ */
+export class HarNormaliser {
+  private readonly secrets: Record<string, string>
+  private readonly names = new Map<string, string>()
+  private readonly campaignIds = new Map<string, string>()
+  private readonly generatedCopy = new Map<string, string>()
+
+  /**
+   * @param secrets - values that must not end up in a HAR, mapped to their placeholders
+   */
+  constructor(secrets: Record<string, string>) {
+    this.secrets = secrets
+  }
+
+  /**
+   * Normalise a URL or JSON body the browser sends, on record and on replay alike
+   */
+  normaliseRequest(text: string): string {
+    let normalised = text
+      .replace(TIMESTAMP_PATTERN, FIXED_TIMESTAMP)
+      .replace(EPOCH_MS_PATTERN, FIXED_EPOCH_MS)
+    normalised = normalised.replace(
+      CAMPAIGN_NAME_PATTERN,
+      (_match, before, after, suffix, tagSeparator, tagOpen, tagClose) => {
+        if (!this.names.has(suffix)) {
+          this.names.set(suffix, campaignNameSuffix(this.names.size + 1))
+        }
+        const tag = tagOpen ? `${tagSeparator}${tagOpen}${REPLAY_RUN_TAG}${tagClose}` : ''
+        return `${before}-${after}${this.names.get(suffix)}${tag}`
+      }
+    )
+    for (const [secret, placeholder] of Object.entries(this.secrets)) {
+      normalised = replaceJsonString(normalised, secret, placeholder)
+    }
+    return normalised
+  }
+
+  /**
+   * Normalise a freshly recorded HAR in place and tag entries with their sequence
+   */
+  normaliseHar(har: HarFile): HarFile {
+    const { entries } = har.log
+    for (const { request, response } of entries) {
+      request.url = this.normaliseRequest(request.url)
+      if (request.postData?.text && request.postData.mimeType?.includes('json')) {
+        request.postData.text = this.normaliseRequest(request.postData.text)
+      }
+      if (response.content.text && response.content.encoding !== 'base64') {
+        response.content.text = this.normaliseRequest(response.content.text)
+      }
+    }
+
+    this.collectCampaignIds(entries)
+    this.collectGeneratedCopy(entries)
+
+    const sequences = new Map<string, number>()
+    for (const entry of entries) {
+      const { request, response } = entry
+      request.url = this.normaliseRecorded(request.url)
+      if (request.postData?.text && request.postData.mimeType?.includes('json')) {
+        request.postData.text = this.normaliseRecorded(request.postData.text)
+      }
+      if (response.content.text && response.content.encoding !== 'base64') {
+        response.content.text = this.normaliseRecorded(response.content.text)
+      }
+
+      request.queryString = [...new URL(request.url).searchParams].map(([name, value]) => {
+        return { name, value }
+      })
+      request.headers = this.normaliseHeaders(request.headers)
+      response.headers = this.normaliseHeaders(response.headers)
+      request.cookies = []
+      response.cookies = []
+      entry.startedDateTime = FIXED_TIMESTAMP
+      entry.time = 0
+
+      const key = sequenceKey(request.method, request.url)
+      const sequence = (sequences.get(key) ?? 0) + 1
+      sequences.set(key, sequence)
+      request.headers.push({ name: SEQUENCE_HEADER, value: String(sequence) })
+    }
+    return har
+  }
+
+  /**
+   * Apply the replacements only known once the whole recording has been seen
+   */
+  private normaliseRecorded(text: string): string {
+    let normalised = text
+      .replace(TOKEN_PATTERN, REPLAY_ACCESS_TOKEN)
+      .replace(CAMPAIGN_URL_PATTERN, (_match, id) => {
+        return `/campaigns/${this.campaignIds.get(id) ?? id}`
+      })
+      .replace(CAMPAIGN_ID_FIELD_PATTERN, (_match, key, separator, id) => {
+        return `"${key}"${separator}${this.campaignIds.get(id) ?? id}`
+      })
+    for (const [copy, placeholder] of this.generatedCopy) {
+      normalised = replaceJsonString(normalised, copy, placeholder)
+    }
+    return normalised
+  }
+
+  private normaliseHeaders(headers: HarHeader[]): HarHeader[] {
+    return headers
+      .filter((header) => {
+        return !DROPPED_HEADERS.includes(header.name.toLowerCase())
+      })
+      .map((header) => {
+        if (header.name.toLowerCase() === 'authorization') {
+          return { ...header, value: `Bearer ${REPLAY_ACCESS_TOKEN}` }
+        }
+        return { ...header, value: header.value.replace(TOKEN_PATTERN, REPLAY_ACCESS_TOKEN) }
+      })
+  }
+
+  private collectCampaignIds(entries: HarEntry[]): void {
+    for (const entry of entries) {
+      for (const [, id] of entry.request.url.matchAll(CAMPAIGN_URL_PATTERN)) {
+        if (!this.campaignIds.has(id)) {
+          this.campaignIds.set(id, String(REPLAY_CAMPAIGN_ID + this.campaignIds.size))
+        }
+      }
+    }
+  }
+
+  /**
+   * AI copy is copy the API returned before the browser ever sent it
+   */
+  private collectGeneratedCopy(entries: HarEntry[]): void {
+    const sent = new Set<string>()
+    for (const entry of entries) {
+      const requestCopy: string[] = []
+      collectCopy(parseJson(entry.request.postData?.text), requestCopy)
+      for (const copy of requestCopy) {
+        sent.add(copy)
+      }
+
+      const responseCopy: string[] = []
+      collectCopy(parseJson(entry.response.content.text), responseCopy)
+      for (const copy of responseCopy) {
+        if (copy && !sent.has(copy) && !this.generatedCopy.has(copy)) {
+          this.generatedCopy.set(copy, `Generated copy ${this.generatedCopy.size + 1}`)
+        }
+      }
+    }
+  }
+}
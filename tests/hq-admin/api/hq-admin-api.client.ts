@@ -0,0 +1,291 @@
+import { request, APIRequestContext, APIResponse } from '@playwright/test'
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { fromZodError } from 'zod-validation-error'
+import { api, Role } from '../../../config'
+import { ensureStorageState, reauthenticate } from './hq-admin-auth'
+import {
+  assetSchema,
+  buildInfoSchema,
+  campaignListSchema,
+  campaignSchema,
+  generationJobSchema,
+  storyboardSchema,
+  Asset,
+  BuildInfo,
+  Campaign,
+  CampaignList,
+  CopyField,
+  GenerationJob,
+  Storyboard,
+} from './schemas'
+
+export type CampaignInput = {
+  name: string
+}
+
+export type CampaignListParams = {
+  name?: string
+  page?: number
+  pageSize?: number
+}
+
+export type StoryboardUpdate = {
+  headline?: CopyField
+  subHeadline?: CopyField
+  bodyCopy?: CopyField
+  ctaCopy?: CopyField
+  legalCopy?: string
+  assetIds?: string[]
+}
+
+export type PreviewGenerationOptions = {
+  type: 'image' | 'video'
+  orientation?: 'portrait' | 'landscape'
+  prompt?: string
+  duration?: number
+  fps?: number
+  multiShoot?: boolean
+}
+
+type RequestOptions = NonNullable<Parameters<APIRequestContext['fetch']>[1]>
+
+// Uploads are sent from a buffer so a retry after a 401 can send them again
+const ASSET_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+}
+
+/**
+ * Thrown when the HQ Admin API answers with a non-2xx status
+ */
+export class HqAdminApiError extends Error {
+  readonly status: number
+  readonly url: string
+
+  constructor(status: number, url: string, body: string) {
+    super(`HQ Admin API request to ${url} failed with ${status}: ${body}`)
+    this.name = 'HqAdminApiError'
+    this.status = status
+    this.url = url
+  }
+}
+
+/**
+ * Typed client for the HQ Admin API, authenticated as one role
+ *
+ * Paths and response shapes follow mock-server/server.ts, there is no OpenAPI spec to take them
+ * from, see schemas.ts for checking them against a recording of a real environment. Fixtures only
+ * set up and clean up through it where that check passed, see apiChecked in config.ts
+ *
+ * A 401 mid-run logs the role in again and retries the request once
+ */
+export class HqAdminApiClient {
+  readonly request: APIRequestContext
+  readonly role: Role
+  private token: string
+
+  constructor(request: APIRequestContext, role: Role, token: string) {
+    this.request = request
+    this.role = role
+    this.token = token
+  }
+
+  /**
+   * Create a client authenticated with the role's saved token, refreshed if it is about to expire
+   */
+  static async create(role: Role = 'admin'): Promise<HqAdminApiClient> {
+    const token = await ensureStorageState(role)
+    const context = await request.newContext({
+      // Trailing slash so relative paths resolve below /api
+      baseURL: `${api.hqAdmin}/`,
+    })
+    return new HqAdminApiClient(context, role, token)
+  }
+
+  /**
+   * Release the underlying request context
+   */
+  async dispose(): Promise<void> {
+    await this.request.dispose()
+  }
+
+  // ==================== Build ====================
+
+  /**
+   * Get the version of the deployed HQ Admin and the capabilities it exposes
+   */
+  async getBuildInfo(): Promise<BuildInfo> {
+    const response = await this.send('GET', 'version')
+    return await this.parse(response, buildInfoSchema)
+  }
+
+  // ==================== Campaigns ====================
+
+  /**
+   * List campaigns, optionally filtered by name
+   */
+  async listCampaigns(params: CampaignListParams = {}): Promise<CampaignList> {
+    const response = await this.send('GET', 'campaigns', { params })
+    return await this.parse(response, campaignListSchema)
+  }
+
+  /**
+   * Create a campaign with a campaign brief
+   */
+  async createCampaign(input: CampaignInput): Promise<Campaign> {
+    const response = await this.send('POST', 'campaigns', { data: input })
+    return await this.parse(response, campaignSchema)
+  }
+
+  /**
+   * Get a campaign by ID
+   */
+  async getCampaign(campaignId: string): Promise<Campaign> {
+    const response = await this.send('GET', `campaigns/${campaignId}`)
+    return await this.parse(response, campaignSchema)
+  }
+
+  /**
+   * Update a campaign's brief
+   */
+  async updateCampaign(campaignId: string, input: Partial<CampaignInput>): Promise<Campaign> {
+    const response = await this.send('PATCH', `campaigns/${campaignId}`, { data: input })
+    return await this.parse(response, campaignSchema)
+  }
+
+  /**
+   * Delete a campaign by ID
+   */
+  async deleteCampaign(campaignId: string): Promise<void> {
+    const response = await this.send('DELETE', `campaigns/${campaignId}`)
+    await this.assertOk(response)
+  }
+
+  // ==================== Storyboard & Copy ====================
+
+  /**
+   * Get the storyboard & copy of a campaign
+   */
+  async getStoryboard(campaignId: string): Promise<Storyboard> {
+    const response = await this.send('GET', `campaigns/${campaignId}/storyboard`)
+    return await this.parse(response, storyboardSchema)
+  }
+
+  /**
+   * Update the storyboard & copy of a campaign, like saving the form
+   */
+  async updateStoryboard(campaignId: string, update: StoryboardUpdate): Promise<Storyboard> {
+    const response = await this.send('PUT', `campaigns/${campaignId}/storyboard`, { data: update })
+    return await this.parse(response, storyboardSchema)
+  }
+
+  /**
+   * Trigger storyboard & copy generation, like the Generate Storyboard & Copy button
+   */
+  async generateStoryboard(campaignId: string): Promise<GenerationJob> {
+    const response = await this.send('POST', `campaigns/${campaignId}/storyboard/generate`)
+    return await this.parse(response, generationJobSchema)
+  }
+
+  // ==================== Previews ====================
+
+  /**
+   * Trigger preview generation, like the Generate / Regenerate Preview buttons
+   */
+  async generatePreview(
+    campaignId: string,
+    options: PreviewGenerationOptions
+  ): Promise<GenerationJob> {
+    const response = await this.send('POST', `campaigns/${campaignId}/previews/generate`, {
+      data: options,
+    })
+    return await this.parse(response, generationJobSchema)
+  }
+
+  // ==================== Generation jobs ====================
+
+  /**
+   * Get the status of a storyboard or preview generation job
+   */
+  async getGenerationJob(jobId: string): Promise<GenerationJob> {
+    const response = await this.send('GET', `generation-jobs/${jobId}`)
+    return await this.parse(response, generationJobSchema)
+  }
+
+  // ==================== Assets ====================
+
+  /**
+   * Upload a reference image / style guide to a campaign
+   */
+  async uploadAsset(campaignId: string, filePath: string): Promise<Asset> {
+    const mimeType = ASSET_MIME_TYPES[path.extname(filePath).toLowerCase()]
+    const response = await this.send('POST', `campaigns/${campaignId}/assets`, {
+      multipart: {
+        file: {
+          name: path.basename(filePath),
+          mimeType: mimeType ?? 'application/octet-stream',
+          buffer: fs.readFileSync(filePath),
+        },
+      },
+    })
+    return await this.parse(response, assetSchema)
+  }
+
+  /**
+   * Send an authenticated request, logging in again and retrying once on a 401
+   */
+  private async send(
+    method: string,
+    url: string,
+    options: RequestOptions = {}
+  ): Promise<APIResponse> {
+    const response = await this.fetchAuthenticated(method, url, options)
+    if (response.status() !== 401) {
+      return response
+    }
+
+    this.token = await reauthenticate(this.role)
+    return await this.fetchAuthenticated(method, url, options)
+  }
+
+  private async fetchAuthenticated(
+    method: string,
+    url: string,
+    options: RequestOptions
+  ): Promise<APIResponse> {
+    return await this.request.fetch(url, {
+      ...options,
+      method,
+      headers: { Authorization: `Bearer ${this.token}` },
+    })
+  }
+
+  /**
+   * Throw an HqAdminApiError if the response is not 2xx
+   */
+  private async assertOk(response: APIResponse): Promise<void> {
+    if (!response.ok()) {
+      throw new HqAdminApiError(response.status(), response.url(), await response.text())
+    }
+  }
+
+  /**
+   * Check the response status and validate its JSON body against a schema
+   */
+  private async parse<T extends z.ZodType>(response: APIResponse, schema: T): Promise<z.output<T>> {
+    await this.assertOk(response)
+    const result = schema.safeParse(await response.json())
+    if (!result.success) {
+      throw new Error(
+        `Unexpected response from ${response.url()}: ${fromZodError(result.error).message}`
+      )
+    }
+    return result.data
+  }
+}
@@ -0,0 +1,152 @@
+import { request } from '@playwright/test'
+import fs from 'fs'
+import path from 'path'
+import { fromZodError } from 'zod-validation-error'
+import { api, authFile, credentials, domain, Role } from '../../../config'
+import { env } from '../../../env'
+import { REPLAY_ACCESS_TOKEN } from './har-normaliser'
+import { loginResponseSchema } from './schemas'
+
+/**
+ * localStorage key the HQ Admin app keeps its access token under
+ */
+export const TOKEN_STORAGE_KEY = 'hq-admin.auth-token'
+
+type StorageState = {
+  cookies: unknown[]
+  origins: Array<{ origin: string; localStorage: Array<{ name: string; value: string }> }>
+}
+
+// Logins in flight per role, so concurrent 401s share one login
+const pendingLogins = new Map<Role, Promise<string>>()
+
+/**
+ * Expiry of a JWT access token in epoch milliseconds, undefined if it has none
+ */
+export function readTokenExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64').toString('utf8'))
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a token stays valid for longer than the refresh margin
+ *
+ * Tokens without an `exp` count as fresh, a 401 triggers their refresh instead
+ */
+export function isTokenFresh(
+  token: string,
+  marginMs: number = env.HQ_ADMIN_TOKEN_REFRESH_MARGIN_MS
+): boolean {
+  const expiry = readTokenExpiry(token)
+  return expiry === undefined || expiry - marginMs > Date.now()
+}
+
+/**
+ * Read the access token from a saved storage state, undefined if there is none
+ */
+export function readStoredToken(storageStatePath: string): string | undefined {
+  if (!fs.existsSync(storageStatePath)) {
+    return undefined
+  }
+
+  const data: StorageState = JSON.parse(fs.readFileSync(storageStatePath, 'utf8'))
+  const origin = data.origins?.find((item) => {
+    return item.origin === domain.hqAdmin
+  })
+  return origin?.localStorage.find((item) => {
+    return item.name === TOKEN_STORAGE_KEY
+  })?.value
+}
+
+/**
+ * Save the storage state the app has after logging in with a token
+ *
+ * Feature flags are left to the flags fixture, so tests can run with different ones
+ */
+export function writeStorageState(storageStatePath: string, token: string): void {
+  const state: StorageState = {
+    cookies: [],
+    origins: [
+      {
+        origin: domain.hqAdmin,
+        localStorage: [{ name: TOKEN_STORAGE_KEY, value: token }],
+      },
+    ],
+  }
+
+  // Written aside and renamed, so other workers never read a half-written file
+  const tempPath = `${storageStatePath}.${process.pid}.tmp`
+  fs.mkdirSync(path.dirname(storageStatePath), { recursive: true })
+  fs.writeFileSync(tempPath, `${JSON.stringify(state, null, 2)}\n`)
+  fs.renameSync(tempPath, storageStatePath)
+}
+
+/**
+ * Log in through the HQ Admin auth endpoint and return the access token
+ */
+export async function login(role: Role): Promise<string> {
+  const roleCredentials = credentials.hqAdmin[role]
+  if (!roleCredentials) {
+    throw new Error(`No HQ Admin credentials for the ${role} role`)
+  }
+
+  const context = await request.newContext()
+  try {
+    const response = await context.post(`${api.hqAdmin}/auth/login`, { data: roleCredentials })
+    if (!response.ok()) {
+      const body = await response.text()
+      throw new Error(`HQ Admin login as ${role} failed with ${response.status()}: ${body}`)
+    }
+    const result = loginResponseSchema.safeParse(await response.json())
+    if (!result.success) {
+      throw new Error(`Unexpected login response: ${fromZodError(result.error).message}`)
+    }
+    return result.data.accessToken
+  } finally {
+    await context.dispose()
+  }
+}
+
+/**
+ * Log a role in again and save its storage state, e.g. after a 401
+ */
+export async function reauthenticate(role: Role): Promise<string> {
+  let pending = pendingLogins.get(role)
+  if (!pending) {
+    pending = login(role)
+      .then((token) => {
+        writeStorageState(authFile.hqAdmin[role], token)
+        return token
+      })
+      .finally(() => {
+        pendingLogins.delete(role)
+      })
+    pendingLogins.set(role, pending)
+  }
+  return await pending
+}
+
+/**
+ * Make sure a role's storage state holds a fresh token, logging in only when it does not
+ */
+export async function ensureStorageState(role: Role): Promise<string> {
+  const storageStatePath = authFile.hqAdmin[role]
+
+  // Replays never reach a backend, the recordings expect the placeholder token
+  if (env.NETWORK_MODE === 'replay') {
+    if (readStoredToken(storageStatePath) !== REPLAY_ACCESS_TOKEN) {
+      writeStorageState(storageStatePath, REPLAY_ACCESS_TOKEN)
+    }
+    return REPLAY_ACCESS_TOKEN
+  }
+
+  const token = readStoredToken(storageStatePath)
+  if (token && isTokenFresh(token)) {
+    return token
+  }
+  return await reauthenticate(role)
+}
@@ -0,0 +1,216 @@
+import { Page, Request, Response } from '@playwright/test'
+import { api } from '../../../config'
+
+/**
+ * An HQ Admin API call the app makes behind a UI action
+ */
+export type HqAdminEndpoint = {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  // Path below the API root, e.g. campaigns/7482/storyboard
+  path: RegExp
+  // Query parameters the request must carry, others are ignored
+  query?: Record<string, string>
+  description: string
+}
+
+export type WaitForResponsesOptions = {
+  timeout?: number
+}
+
+const DEFAULT_TIMEOUT = 30000
+
+const API_PATH = new URL(api.hqAdmin).pathname
+
+// Any campaign when the ID is not known up front, e.g. right after creating it
+const campaignPath = (campaignId: string | undefined, rest: string = ''): RegExp => {
+  return new RegExp(`^campaigns/${campaignId ?? '\\d+'}${rest}$`)
+}
+
+const campaignLabel = (campaignId?: string): string => {
+  return campaignId ? `campaign ${campaignId}` : 'campaign'
+}
+
+const orientationQuery = (orientation?: string): Record<string, string> | undefined => {
+  return orientation ? { orientation } : undefined
+}
+
+/**
+ * The endpoints page objects and fixtures match requests against, named after the API client
+ * methods where there is one
+ *
+ * The paths follow mock-server/server.ts, compare them with a recording of a real environment
+ * (NETWORK_MODE=record) when the backend changes
+ */
+export const hqAdminEndpoints = {
+  listCampaigns: (name?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: /^campaigns$/,
+      query: name === undefined ? undefined : { name },
+      description: name === undefined ? 'campaign list' : `campaign list matching "${name}"`,
+    }
+  },
+  createCampaign: (): HqAdminEndpoint => {
+    return { method: 'POST', path: /^campaigns$/, description: 'campaign creation' }
+  },
+  getCampaign: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: campaignPath(campaignId),
+      description: campaignLabel(campaignId),
+    }
+  },
+  updateCampaign: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'PATCH',
+      path: campaignPath(campaignId),
+      description: `${campaignLabel(campaignId)} update`,
+    }
+  },
+  deleteCampaign: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'DELETE',
+      path: campaignPath(campaignId),
+      description: `${campaignLabel(campaignId)} deletion`,
+    }
+  },
+  getStoryboard: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: campaignPath(campaignId, '/storyboard'),
+      description: `storyboard of ${campaignLabel(campaignId)}`,
+    }
+  },
+  updateStoryboard: (campaignId: string): HqAdminEndpoint => {
+    return {
+      method: 'PUT',
+      path: campaignPath(campaignId, '/storyboard'),
+      description: `storyboard save of campaign ${campaignId}`,
+    }
+  },
+  generateStoryboard: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'POST',
+      path: campaignPath(campaignId, '/storyboard/generate'),
+      description: `storyboard & copy generation of ${campaignLabel(campaignId)}`,
+    }
+  },
+  generatePreview: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'POST',
+      path: campaignPath(campaignId, '/previews/generate'),
+      description: `preview generation of ${campaignLabel(campaignId)}`,
+    }
+  },
+  uploadAsset: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'POST',
+      path: campaignPath(campaignId, '/assets'),
+      description: `asset upload to ${campaignLabel(campaignId)}`,
+    }
+  },
+  getGenerationJob: (jobId?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: new RegExp(`^generation-jobs/${jobId ?? '[^/]+'}$`),
+      description: `generation job ${jobId ?? ''}`.trim(),
+    }
+  },
+  listPreviews: (campaignId?: string, orientation?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: campaignPath(campaignId, '/previews'),
+      query: orientationQuery(orientation),
+      description: `${orientation ?? ''} previews of ${campaignLabel(campaignId)}`.trim(),
+    }
+  },
+  listStyles: (campaignId?: string, orientation?: string): HqAdminEndpoint => {
+    return {
+      method: 'GET',
+      path: campaignPath(campaignId, '/styles'),
+      query: orientationQuery(orientation),
+      description: `${orientation ?? ''} styles of ${campaignLabel(campaignId)}`.trim(),
+    }
+  },
+  updateStyles: (campaignId?: string): HqAdminEndpoint => {
+    return {
+      method: 'PUT',
+      path: campaignPath(campaignId, '/styles'),
+      description: `style save of ${campaignLabel(campaignId)}`,
+    }
+  },
+}
+
+/**
+ * Whether a response answers a call to the endpoint, whatever its status
+ */
+export function matchesEndpoint(response: Response, endpoint: HqAdminEndpoint): boolean {
+  return matchesRequest(response.request(), endpoint)
+}
+
+/**
+ * Whether a request calls the endpoint
+ */
+export function matchesRequest(request: Request, endpoint: HqAdminEndpoint): boolean {
+  if (request.method() !== endpoint.method) {
+    return false
+  }
+  const url = new URL(request.url())
+  if (!url.pathname.startsWith(`${API_PATH}/`)) {
+    return false
+  }
+  if (!endpoint.path.test(url.pathname.slice(API_PATH.length + 1))) {
+    return false
+  }
+  return Object.entries(endpoint.query ?? {}).every(([key, value]) => {
+    return url.searchParams.get(key) === value
+  })
+}
+
+/**
+ * Run a UI action and wait for the responses of the endpoints it calls, for actions whose
+ * response body a test needs, e.g. the generation job it started. Otherwise wait for the UI
+ * state the action leads to, an endpoint the real backend doesn't call would time out here
+ *
+ * Only requests made once the action starts count, not responses to earlier requests that
+ * are still in flight
+ */
+export async function waitForHqAdminResponses(
+  page: Page,
+  endpoints: HqAdminEndpoint[],
+  action: () => Promise<unknown>,
+  options: WaitForResponsesOptions = {}
+): Promise<Response[]> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT
+  const started = new Set<Request>()
+  const onRequest = (request: Request): void => {
+    started.add(request)
+  }
+  page.on('request', onRequest)
+
+  try {
+    const responses = endpoints.map((endpoint) => {
+      const response = page
+        .waitForResponse(
+          (candidate) => {
+            return started.has(candidate.request()) && matchesEndpoint(candidate, endpoint)
+          },
+          { timeout }
+        )
+        .catch((error: unknown) => {
+          const reason = error instanceof Error ? error.message : String(error)
+          throw new Error(`No response for the ${endpoint.description} request: ${reason}`)
+        })
+      // Surfaced by Promise.all below, unless the action fails first
+      response.catch(() => {
+        return undefined
+      })
+      return response
+    })
+
+    await action()
+    return await Promise.all(responses)
+  } finally {
+    page.off('request', onRequest)
+  }
+}
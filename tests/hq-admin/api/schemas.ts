@@ -0,0 +1,81 @@
+import { z } from 'zod'
+
+/**
+ * Shapes of the HQ Admin API responses the suite reads
+ *
+ * There is no OpenAPI spec for the HQ Admin API in this repo, these follow mock-server/server.ts.
+ * Check them against a real environment with pnpm check:api-schemas on a recording, see
+ * scripts/check-api-schemas.ts. Fields are only required when a test or fixture reads them, and
+ * fields they don't list are kept, so a backend sending more doesn't fail the parse
+ */
+
+// IDs come back as numbers but the UI routes and page objects use strings
+const idSchema = z.union([z.number(), z.string()]).transform(String)
+
+export const loginResponseSchema = z.looseObject({
+  accessToken: z.string(),
+})
+
+export const buildInfoSchema = z.looseObject({
+  version: z.string(),
+  capabilities: z.array(z.string()),
+})
+
+export const storyboardStatusEnum = z.enum(['none', 'generating', 'completed', 'failed'])
+
+export const campaignSchema = z.looseObject({
+  id: idSchema,
+  name: z.string(),
+  storyboardStatus: storyboardStatusEnum,
+  storyboardError: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+})
+
+export const campaignListSchema = z.looseObject({
+  items: z.array(campaignSchema),
+  total: z.number(),
+})
+
+export const assetSchema = z.looseObject({
+  id: idSchema,
+  name: z.string(),
+  url: z.string().optional(),
+  mimeType: z.string().optional(),
+})
+
+export const copyFieldSchema = z.looseObject({
+  default: z.string(),
+  variants: z.array(z.string()),
+})
+
+export const storyboardSchema = z.looseObject({
+  campaignId: idSchema.optional(),
+  headline: copyFieldSchema,
+  subHeadline: copyFieldSchema,
+  bodyCopy: copyFieldSchema,
+  ctaCopy: copyFieldSchema,
+  legalCopy: z.string(),
+  assets: z.array(assetSchema),
+})
+
+export const generationStatusEnum = z.enum(['pending', 'running', 'completed', 'failed'])
+
+export const generationJobSchema = z.looseObject({
+  id: idSchema,
+  status: generationStatusEnum,
+  // Percentage done, for backends that report it
+  progress: z.number().min(0).max(100).nullish(),
+  error: z.string().nullish(),
+})
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>
+export type BuildInfo = z.infer<typeof buildInfoSchema>
+export type StoryboardStatus = z.infer<typeof storyboardStatusEnum>
+export type Campaign = z.infer<typeof campaignSchema>
+export type CampaignList = z.infer<typeof campaignListSchema>
+export type Asset = z.infer<typeof assetSchema>
+export type CopyField = z.infer<typeof copyFieldSchema>
+export type Storyboard = z.infer<typeof storyboardSchema>
+export type GenerationStatus = z.infer<typeof generationStatusEnum>
+export type GenerationJob = z.infer<typeof generationJobSchema>
@@ -0,0 +1,105 @@
+import { HqAdminApiClient } from './api/hq-admin-api.client'
+import { Campaign } from './api/schemas'
+import { parseGeneratedCampaignName } from './campaign-name'
+
+export type JanitorOptions = {
+  // Name prefix passed to generateUniqueCampaignName()
+  prefix: string
+  // Campaigns of other runs are only removed once they are this old
+  maxAgeMs: number
+  // Campaigns of this run are removed whatever their age
+  runTag?: string
+  dryRun: boolean
+}
+
+export type JanitorSummary = {
+  options: JanitorOptions
+  deleted: Campaign[]
+  failed: Array<{ campaign: Campaign; error: string }>
+}
+
+const PAGE_SIZE = 100
+
+/**
+ * Whether a campaign was left behind by the suite and may be deleted
+ */
+function isOrphaned(campaign: Campaign, options: JanitorOptions, now: number): boolean {
+  const generated = parseGeneratedCampaignName(campaign.name)
+  if (!generated || generated.prefix !== options.prefix) {
+    return false
+  }
+  if (options.runTag && generated.runTag === options.runTag) {
+    return true
+  }
+  return now - Date.parse(campaign.createdAt) >= options.maxAgeMs
+}
+
+/**
+ * List every campaign whose name contains the prefix, across all pages
+ */
+async function listCampaignsByPrefix(
+  hqAdminApi: HqAdminApiClient,
+  prefix: string
+): Promise<Campaign[]> {
+  const campaigns: Campaign[] = []
+  for (let page = 1; ; page++) {
+    const list = await hqAdminApi.listCampaigns({ name: prefix, page, pageSize: PAGE_SIZE })
+    campaigns.push(...list.items)
+    if (list.items.length < PAGE_SIZE || campaigns.length >= list.total) {
+      return campaigns
+    }
+  }
+}
+
+/**
+ * Delete the campaigns test runs left behind, e.g. after the lifecycle spec failed mid-way
+ */
+export async function cleanOrphanedCampaigns(
+  hqAdminApi: HqAdminApiClient,
+  options: JanitorOptions
+): Promise<JanitorSummary> {
+  const now = Date.now()
+  const orphaned = (await listCampaignsByPrefix(hqAdminApi, options.prefix)).filter((campaign) => {
+    return isOrphaned(campaign, options, now)
+  })
+
+  const summary: JanitorSummary = { options, deleted: [], failed: [] }
+  for (const campaign of orphaned) {
+    if (options.dryRun) {
+      summary.deleted.push(campaign)
+      continue
+    }
+    try {
+      await hqAdminApi.deleteCampaign(campaign.id)
+      summary.deleted.push(campaign)
+    } catch (error) {
+      summary.failed.push({ campaign, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return summary
+}
+
+/**
+ * Human readable summary of a janitor run, for the console
+ */
+export function formatJanitorSummary(summary: JanitorSummary): string {
+  const { options, deleted, failed } = summary
+  const verb = options.dryRun ? 'Would delete' : 'Deleted'
+  const scope = [
+    `"${options.prefix}" campaigns older than ${options.maxAgeMs / 3600000}h`,
+    ...(options.runTag ? [`of run ${options.runTag}`] : []),
+  ].join(' or ')
+
+  const lines = [`🧹 Campaign janitor${options.dryRun ? ' (dry run)' : ''}: ${scope}`]
+  lines.push(`  ${verb} ${deleted.length} campaign(s)`)
+  for (const campaign of deleted) {
+    lines.push(`    - ${campaign.id} ${campaign.name} (created ${campaign.createdAt})`)
+  }
+  if (failed.length > 0) {
+    lines.push(`  Failed to delete ${failed.length} campaign(s)`)
+    for (const { campaign, error } of failed) {
+      lines.push(`    - ${campaign.id} ${campaign.name}: ${error}`)
+    }
+  }
+  return lines.join('\n')
+}
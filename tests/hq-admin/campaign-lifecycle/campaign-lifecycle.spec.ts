@@ -1,20 +1,31 @@
-import { test, expect } from '@playwright/test'
+import { test, expect } from '../../fixtures'
+import { generationBudgets } from '../../../config'
+import { waitForGenerationJob } from '../generation-jobs'
 import { CampaignTablePage } from './page-objects/campaign-table.page'
 import { StoryboardAndCopyPage } from '../storyboard-and-copy/page-objects/storyboard-and-copy.page'
 
+// Time the UI steps take, on top of waiting for one storyboard and two preview generations
+const UI_STEPS_TIMEOUT = 60000
+
 test.describe('Campaign Lifecycle', () => {
   let campaignTablePage: CampaignTablePage
   let storyboardPage: StoryboardAndCopyPage
   let createdCampaignName: string
   let createdCampaignId: string
 
-  test.beforeEach(async ({ page }) => {
-    campaignTablePage = new CampaignTablePage(page)
+  test.beforeEach(async ({ page, testData }) => {
+    campaignTablePage = new CampaignTablePage(page, testData)
   })
 
   test('should create campaign, generate storyboard & copy, and delete campaign', async ({
     page,
+    testData,
+    hqAdminApi,
   }) => {
+    test.setTimeout(
+      UI_STEPS_TIMEOUT + generationBudgets.storyboard.timeoutMs + 2 * generationBudgets.preview.timeoutMs
+    )
+
     // Step 1: Navigate to campaign table page
     await campaignTablePage.navigateToPage()
 
@@ -52,10 +63,7 @@ test.describe('Campaign Lifecycle', () => {
     createdCampaignId = await campaignTablePage.waitForDetailsPage()
     expect(createdCampaignId).toBeTruthy()
 
-    // Step 8: Wait for page to fully load and verify Generate Storyboard & Copy is now enabled
-    await page.waitForLoadState('networkidle')
-    await page.waitForTimeout(1000) // Allow time for button state to update
-
+    // Step 8: Verify Generate Storyboard & Copy is now enabled
     await expect(async () => {
       const isGenerateEnabled =
         await campaignTablePage.isGenerateStoryboardEnabled()
@@ -63,7 +71,7 @@ test.describe('Campaign Lifecycle', () => {
     }).toPass({ timeout: 10000 })
 
     // Step 9: Click Generate Storyboard & Copy button
-    await campaignTablePage.clickGenerateStoryboard()
+    const storyboardJob = await campaignTablePage.clickGenerateStoryboard()
 
     // Step 10: Verify button shows loading state
     await expect(async () => {
@@ -84,8 +92,9 @@ test.describe('Campaign Lifecycle', () => {
     const isTabDisabled = await campaignTablePage.isStoryboardTabDisabled()
     expect(isTabDisabled).toBe(true)
 
-    // Step 13: Wait for tab to become enabled (generation complete, may take up to 60 seconds)
-    await campaignTablePage.waitForStoryboardTabEnabled(60000)
+    // Step 13: Wait for generation to complete on the backend, then for the tab to become enabled
+    await waitForGenerationJob(hqAdminApi, storyboardJob, { kind: 'storyboard' })
+    await campaignTablePage.waitForStoryboardTabEnabled()
 
     // Step 14: Verify spinning icon is gone and tab is clickable
     const isStillSpinning = await campaignTablePage.isStoryboardTabSpinning()
@@ -96,10 +105,9 @@ test.describe('Campaign Lifecycle', () => {
 
     // Step 15: Click on Storyboard & Copy tab and verify content
     await campaignTablePage.clickStoryboardTab()
-    await page.waitForLoadState('networkidle')
 
     // Initialize StoryboardAndCopyPage with the created campaign ID
-    storyboardPage = new StoryboardAndCopyPage(page, createdCampaignId)
+    storyboardPage = new StoryboardAndCopyPage(page, createdCampaignId, testData)
 
     // Step 16: Verify all sections are visible
     await storyboardPage.verifySectionsVisible()
@@ -111,7 +119,7 @@ test.describe('Campaign Lifecycle', () => {
 
     // Step 18: Test editing headline and verify Save button becomes enabled
     const testHeadline = `E2E Test Headline ${Date.now()}`
-    await storyboardPage.fillDefaultHeadline(testHeadline)
+    await storyboardPage.copySection('headline').fillDefault(testHeadline)
 
     const isSaveEnabled = await storyboardPage.isSaveButtonEnabled()
     expect(isSaveEnabled).toBe(true)
@@ -126,51 +134,66 @@ test.describe('Campaign Lifecycle', () => {
     }).toPass({ timeout: 10000 })
 
     // Step 21: Test preview orientation
-    const isPortrait = await storyboardPage.isPortraitSelected()
+    const isPortrait = await storyboardPage.previewPanel.isPortraitSelected()
     expect(isPortrait).toBe(true)
 
-    await storyboardPage.selectLandscapePreview()
-    const isLandscape = await storyboardPage.isLandscapeSelected()
+    await storyboardPage.previewPanel.selectLandscape()
+    const isLandscape = await storyboardPage.previewPanel.isLandscapeSelected()
     expect(isLandscape).toBe(true)
 
-    // Step 22: Test Generate Preview button (without waiting for completion)
+    // Step 22: Generate a preview and wait for it to complete
     // Check if Generate button is visible (no previews yet)
-    const isGenerateVisible = await storyboardPage.isGenerateButtonVisible()
+    const isGenerateVisible = await storyboardPage.previewPanel.isGenerateButtonVisible()
     expect(isGenerateVisible).toBe(true)
 
     // Click Generate to start preview generation
-    await storyboardPage.clickGenerate()
+    const previewJob = await storyboardPage.previewPanel.clickGenerate()
 
     // Verify button shows loading state
     await expect(async () => {
-      const isLoading = await storyboardPage.isGenerateLoading()
+      const isLoading = await storyboardPage.previewPanel.isGenerateLoading()
       expect(isLoading).toBe(true)
     }).toPass({ timeout: 5000 })
 
-    // Note: Skipping wait for preview generation completion and "Generate Again" test
-    // as preview generation takes longer than test timeout allows.
-    // The Regenerate Preview modal can be tested in a separate dedicated test with longer timeout.
+    await waitForGenerationJob(hqAdminApi, previewJob, { kind: 'preview' })
+    await storyboardPage.previewPanel.waitForGenerationComplete()
+
+    // Step 23: Regenerate the preview with Generate Again and wait for it to complete
+    expect(await storyboardPage.previewPanel.waitForGenerateAgainClickable()).toBe(true)
+    await storyboardPage.previewPanel.clickGenerateAgain()
+    await storyboardPage.regenerateModal.waitForVisible()
+    await storyboardPage.regenerateModal.fillPrompt(`E2E Test regeneration ${Date.now()}`)
+
+    const regenerationJob = await storyboardPage.regenerateModal.clickGenerate()
+    await expect(storyboardPage.regenerateModal.locator).not.toBeVisible({
+      timeout: 10000,
+    })
+
+    await waitForGenerationJob(hqAdminApi, regenerationJob, { kind: 'preview' })
+    expect(
+      await storyboardPage.previewPanel.waitForGenerateAgainClickable(generationBudgets.preview.timeoutMs)
+    ).toBe(true)
 
-    // Step 23: Navigate back to campaign table
+    // Step 24: Navigate back to campaign table
     await campaignTablePage.navigateBackToTable()
 
-    // Step 24: Search for the created campaign
+    // Step 25: Search for the created campaign
     await campaignTablePage.searchCampaign(createdCampaignName)
 
-    // Step 25: Select the campaign row
+    // Step 26: Select the campaign row
     await campaignTablePage.selectCampaignRow(createdCampaignName)
 
-    // Step 26: Click "Delete Selected Campaigns" button
+    // Step 27: Click "Delete Selected Campaigns" button
     await campaignTablePage.clickDeleteSelectedCampaigns()
 
-    // Step 27: Wait for and confirm delete modal
+    // Step 28: Wait for and confirm delete modal
     await campaignTablePage.waitForDeleteConfirmModal()
     await campaignTablePage.confirmDelete()
 
-    // Step 28: Wait for delete success
+    // Step 29: Wait for delete success
     await campaignTablePage.waitForDeleteSuccess()
 
-    // Step 29: Verify campaign is no longer in the table
+    // Step 30: Verify campaign is no longer in the table
     const isDeleted = await campaignTablePage.verifyCampaignDeleted(
       createdCampaignName
     )
@@ -1,13 +1,29 @@
 import { Page, Locator, expect } from '@playwright/test'
-import { app } from '../../../../config'
+import { app, generationBudgets } from '../../../../config'
+import { hqAdminEndpoints, waitForHqAdminResponses } from '../../api/hq-admin-responses'
+import { GenerationJob, generationJobSchema } from '../../api/schemas'
+import { generateUniqueCampaignName } from '../../campaign-name'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { measureNavigation } from '../../performance-monitor'
+import { TestDataRegistry } from '../../test-data-registry'
+
+export type SearchCampaignOptions = {
+  // Whether a campaign with the name has to show up, false to find out if there is one
+  expectMatch?: boolean
+}
 
 export class CampaignTablePage {
   readonly page: Page
+  private readonly testData?: TestDataRegistry
 
   // Button locators
   private readonly launchNewCampaignButton: Locator
   private readonly generateStoryboardButton: Locator
 
+  // Storyboard generation failure locators
+  private readonly storyboardGenerationError: Locator
+  private readonly retryGenerateStoryboardButton: Locator
+
   // Modal locators
   private readonly launchCampaignModal: Locator
   private readonly clickHereLink: Locator
@@ -16,8 +32,9 @@ export class CampaignTablePage {
   private readonly campaignTable: Locator
   private readonly searchInput: Locator
 
-  constructor(page: Page) {
+  constructor(page: Page, testData?: TestDataRegistry) {
     this.page = page
+    this.testData = testData
 
     // Launch New Campaign button
     this.launchNewCampaignButton = page.getByRole('button', {
@@ -29,6 +46,14 @@ export class CampaignTablePage {
       name: /Generate Storyboard & Copy/,
     })
 
+    // Inline alert with a Retry button, shown while the last generation has failed
+    this.storyboardGenerationError = page.getByRole('alert').filter({
+      hasText: 'Storyboard & Copy generation failed',
+    })
+    this.retryGenerateStoryboardButton = this.storyboardGenerationError.getByRole('button', {
+      name: 'Retry',
+    })
+
     // Launch Campaign Modal
     this.launchCampaignModal = page.getByRole('dialog', {
       name: 'Launch a New Campaign',
@@ -41,12 +66,20 @@ export class CampaignTablePage {
   }
 
   /**
-   * Navigate to the campaigns table page
+   * The campaigns table, e.g. for accessibility checks
+   */
+  get table(): Locator {
+    return this.campaignTable
+  }
+
+  /**
+   * Navigate to the campaigns table page, measured against the campaignsTable performance budget
    */
   async navigateToPage(): Promise<void> {
-    await this.page.goto(`${app.hqAdmin}/campaigns`)
-    await this.page.waitForLoadState('networkidle')
-    await expect(this.campaignTable).toBeVisible({ timeout: 30000 })
+    await measureNavigation(this.page, 'campaignsTable', async () => {
+      await this.page.goto(`${app.hqAdmin}/campaigns`)
+      await expect(this.campaignTable).toBeVisible({ timeout: 30000 })
+    })
   }
 
   /**
@@ -84,7 +117,9 @@ export class CampaignTablePage {
    */
   async waitForCreatePage(): Promise<void> {
     await this.page.waitForURL(/\/campaigns\/details\/create/, { timeout: 10000 })
-    await this.page.waitForLoadState('networkidle')
+    await expect(this.page.locator('.ant-form-item:has-text("Campaign Name") input')).toBeVisible({
+      timeout: 10000,
+    })
   }
 
   /**
@@ -110,6 +145,7 @@ export class CampaignTablePage {
 
   /**
    * Click the Update Campaign Brief button
+   * On the create page, follow with waitForDetailsPage() for the new campaign to load
    */
   async clickUpdateCampaignBrief(): Promise<void> {
     const saveButton = this.page.getByRole('button', {
@@ -170,10 +206,18 @@ export class CampaignTablePage {
   }
 
   /**
-   * Click the Generate Storyboard & Copy button
+   * Click the Generate Storyboard & Copy button and wait for generation to be triggered
+   * Returns the job to track with waitForGenerationJob()
    */
-  async clickGenerateStoryboard(): Promise<void> {
-    await this.generateStoryboardButton.click()
+  async clickGenerateStoryboard(): Promise<GenerationJob> {
+    const [response] = await waitForHqAdminResponses(
+      this.page,
+      [hqAdminEndpoints.generateStoryboard()],
+      async () => {
+        await this.generateStoryboardButton.click()
+      }
+    )
+    return generationJobSchema.parse(await response.json())
   }
 
   /**
@@ -234,7 +278,9 @@ export class CampaignTablePage {
   /**
    * Wait for Storyboard & Copy tab to become enabled (generation complete)
    */
-  async waitForStoryboardTabEnabled(timeout: number = 60000): Promise<void> {
+  async waitForStoryboardTabEnabled(
+    timeout: number = generationBudgets.storyboard.timeoutMs
+  ): Promise<void> {
     await expect(async () => {
       const isEnabled = await this.isStoryboardTabEnabled()
       expect(isEnabled).toBe(true)
@@ -242,38 +288,150 @@ export class CampaignTablePage {
   }
 
   /**
-   * Click on Storyboard & Copy tab
+   * Click on Storyboard & Copy tab and wait for it to be selected
    */
   async clickStoryboardTab(): Promise<void> {
     const storyboardTab = this.page.getByRole('tab', {
       name: /Storyboard & Copy/,
     })
     await storyboardTab.click()
+    await expect(storyboardTab).toHaveAttribute('aria-selected', 'true')
+  }
+
+  /**
+   * Check if Generate Storyboard & Copy button is clickable (visible, enabled and not loading)
+   */
+  async isGenerateStoryboardClickable(): Promise<boolean> {
+    const isVisible = await this.isGenerateStoryboardVisible()
+    if (!isVisible) {
+      return false
+    }
+    const isEnabled = await this.isGenerateStoryboardEnabled()
+    const isLoading = await this.isGenerateStoryboardLoading()
+    return isEnabled && !isLoading
+  }
+
+  /**
+   * Wait for Generate Storyboard & Copy to become clickable again, e.g. after a generation ended
+   * Returns false if it is still not clickable after the timeout
+   */
+  async waitForGenerateStoryboardClickable(timeout: number = 10000): Promise<boolean> {
+    try {
+      await expect(async () => {
+        const isClickable = await this.isGenerateStoryboardClickable()
+        expect(isClickable).toBe(true)
+      }).toPass({ timeout })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Click Generate Storyboard & Copy when the backend refuses to start generating,
+   * e.g. for an incomplete campaign brief
+   * Returns the error message of the rejected request
+   */
+  async clickGenerateStoryboardExpectingRejection(): Promise<string> {
+    const [response] = await waitForHqAdminResponses(
+      this.page,
+      [hqAdminEndpoints.generateStoryboard()],
+      async () => {
+        await this.generateStoryboardButton.click()
+      }
+    )
+    expect(response.ok(), 'Storyboard & Copy generation should have been rejected').toBe(false)
+    const body = await response.json().catch(() => {
+      return undefined
+    })
+    return typeof body?.message === 'string' ? body.message : ''
+  }
+
+  /**
+   * Wait for an error message toast, e.g. "Storyboard & Copy generation failed"
+   */
+  async waitForErrorMessage(text: string | RegExp, timeout: number = 10000): Promise<void> {
+    await expect(
+      this.page.locator('.ant-message-error').filter({ hasText: text })
+    ).toBeVisible({ timeout })
+  }
+
+  /**
+   * Check if the storyboard generation error alert is visible
+   */
+  async isStoryboardGenerationErrorVisible(): Promise<boolean> {
+    return await this.storyboardGenerationError.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Wait for the storyboard generation error alert and return the reason it gives
+   */
+  async waitForStoryboardGenerationError(
+    timeout: number = generationBudgets.storyboard.timeoutMs
+  ): Promise<string> {
+    await expect(this.storyboardGenerationError).toBeVisible({ timeout })
+    const description = this.storyboardGenerationError.locator('.ant-alert-description')
+    return (await description.textContent())?.trim() ?? ''
+  }
+
+  /**
+   * Check if the Retry button of the storyboard generation error is visible
+   */
+  async isRetryGenerateStoryboardVisible(): Promise<boolean> {
+    return await this.retryGenerateStoryboardButton.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Click Retry on the storyboard generation error and wait for generation to be triggered again
+   * Returns the job to track with waitForGenerationJob()
+   */
+  async clickRetryGenerateStoryboard(): Promise<GenerationJob> {
+    const [response] = await waitForHqAdminResponses(
+      this.page,
+      [hqAdminEndpoints.generateStoryboard()],
+      async () => {
+        await this.retryGenerateStoryboardButton.click()
+      }
+    )
+    return generationJobSchema.parse(await response.json())
   }
 
   /**
    * Navigate back to campaign table
    */
   async navigateBackToTable(): Promise<void> {
-    await this.page.goto(`${app.hqAdmin}/campaigns`)
-    await this.page.waitForLoadState('networkidle')
-    await expect(this.campaignTable).toBeVisible({ timeout: 30000 })
+    await this.navigateToPage()
   }
 
   /**
-   * Search for a campaign by name
+   * Search for a campaign by name and wait for the matching campaigns to load, by default
+   * including one with the name
    */
-  async searchCampaign(name: string): Promise<void> {
+  async searchCampaign(name: string, options: SearchCampaignOptions = {}): Promise<void> {
     // Find the search textbox in the Name column header
     const nameColumnHeader = this.page.getByRole('columnheader', { name: 'Name' })
     const searchInput = nameColumnHeader.getByRole('textbox')
     await searchInput.fill(name)
 
-    // Press Enter to trigger search
-    await searchInput.press('Enter')
+    // Press Enter to trigger search, and wait for it to answer before checking the rows
+    await waitForHqAdminResponses(
+      this.page,
+      [hqAdminEndpoints.listCampaigns(name)],
+      async () => {
+        await searchInput.press('Enter')
+      },
+      { timeout: 15000 }
+    )
 
-    // Wait for table to update
-    await this.page.waitForTimeout(1000)
+    // Wait for the table to show only matching campaigns
+    await expect(this.campaignTable.locator('.ant-table-row').filter({ hasNotText: name })).toHaveCount(0)
+    if (options.expectMatch ?? true) {
+      await expect(await this.findCampaignRow(name)).toBeVisible()
+    }
   }
 
   /**
@@ -292,8 +450,10 @@ export class CampaignTablePage {
     // Click the first button in the row (expand/select button)
     const selectButton = row.getByRole('button').first()
     await selectButton.click()
-    // Wait for selection to register
-    await this.page.waitForTimeout(500)
+    // Selection has registered once the toolbar offers to delete it
+    await expect(
+      this.page.getByRole('button', { name: 'Delete Selected Campaigns' })
+    ).toBeEnabled({ timeout: 10000 })
   }
 
   /**
@@ -316,7 +476,7 @@ export class CampaignTablePage {
   }
 
   /**
-   * Confirm delete in the modal
+   * Confirm delete in the modal, follow with waitForDeleteSuccess()
    */
   async confirmDelete(): Promise<void> {
     const confirmButton = this.page.getByRole('button', {
@@ -339,17 +499,24 @@ export class CampaignTablePage {
    * Verify campaign is deleted (not in the table)
    */
   async verifyCampaignDeleted(name: string): Promise<boolean> {
-    await this.page.waitForTimeout(1000) // Wait for table to refresh
     const row = this.page.getByRole('row').filter({ hasText: name })
-    const count = await row.count()
-    return count === 0
+    // The refetched table may still be rendering
+    return await expect(row)
+      .toHaveCount(0, { timeout: 10000 })
+      .then(() => {
+        return true
+      })
+      .catch(() => {
+        return false
+      })
   }
 
   /**
-   * Generate a unique campaign name
+   * Generate a unique campaign name, recorded so the campaign is deleted after the test
    */
   generateUniqueCampaignName(prefix: string = 'duc'): string {
-    const uuid = crypto.randomUUID().substring(0, 8)
-    return `${prefix} - ${uuid}`
+    return generateUniqueCampaignName(prefix, this.testData)
   }
 }
+
+trackPageObjectSteps(CampaignTablePage)
@@ -0,0 +1,128 @@
+import { test, expect } from '../../fixtures'
+import { Storyboard } from '../api/schemas'
+import { CampaignTablePage } from './page-objects/campaign-table.page'
+import { StoryboardAndCopyPage } from '../storyboard-and-copy/page-objects/storyboard-and-copy.page'
+import { storyboardToDraft } from '../storyboard-and-copy/page-objects/storyboard-draft'
+
+// How long the timeout test lets a stuck generation run, instead of the full budget of APP_ENV
+const SHORTENED_BUDGET = 5000
+
+/**
+ * A storyboard the model only wrote some of the copy for
+ */
+const partialStoryboard = (campaignId: string): Storyboard => {
+  return {
+    campaignId,
+    headline: { default: 'Summer starts here', variants: [] },
+    subHeadline: { default: '', variants: [] },
+    bodyCopy: { default: '', variants: [] },
+    ctaCopy: { default: 'Shop now', variants: [] },
+    legalCopy: '',
+    assets: [],
+  }
+}
+
+test.describe('Storyboard Generation Failures', () => {
+  let campaignTablePage: CampaignTablePage
+  let storyboardPage: StoryboardAndCopyPage
+
+  // generationSimulator is requested so it sees the campaign load, to patch its status later
+  test.beforeEach(async ({ page, campaignId, generationSimulator }) => {
+    campaignTablePage = new CampaignTablePage(page)
+    storyboardPage = new StoryboardAndCopyPage(page, campaignId)
+    await storyboardPage.navigateToCampaignPage()
+    expect(await campaignTablePage.waitForGenerateStoryboardClickable()).toBe(true)
+  })
+
+  test('should show the error and offer a retry when generation fails server-side', async ({
+    generationSimulator,
+  }) => {
+    await generationSimulator.simulate('storyboard', {
+      state: 'failed',
+      afterMs: 2000,
+      error: 'Model overloaded',
+    })
+    await campaignTablePage.clickGenerateStoryboard()
+
+    // Generating for the first 2s
+    await expect(async () => {
+      expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(true)
+    }).toPass({ timeout: 1500 })
+    expect(await campaignTablePage.isStoryboardTabDisabled()).toBe(true)
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+
+    // Then failed, with the reason the job gave
+    await campaignTablePage.waitForErrorMessage('Storyboard & Copy generation failed', 15000)
+    expect(await campaignTablePage.waitForStoryboardGenerationError(5000)).toBe('Model overloaded')
+    expect(await campaignTablePage.isRetryGenerateStoryboardVisible()).toBe(true)
+
+    // No storyboard to open, and nothing left loading
+    expect(await campaignTablePage.isStoryboardTabVisible()).toBe(false)
+    expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(false)
+    expect(await campaignTablePage.waitForGenerateStoryboardClickable()).toBe(true)
+
+    // Retrying starts over and can succeed
+    await generationSimulator.simulate('storyboard', { state: 'completed', afterMs: 1000 })
+    await campaignTablePage.clickRetryGenerateStoryboard()
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+
+    await campaignTablePage.waitForStoryboardTabEnabled(15000)
+    expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(false)
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+  })
+
+  test('should keep the tab spinning and disabled when generation runs past its budget', async ({
+    generationSimulator,
+  }) => {
+    await generationSimulator.simulate('storyboard', { state: 'stuck' })
+    await campaignTablePage.clickGenerateStoryboard()
+
+    await expect(campaignTablePage.waitForStoryboardTabEnabled(SHORTENED_BUDGET)).rejects.toThrow()
+
+    // Still generating as far as the user can tell, with no error and no way to retry
+    expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(true)
+    expect(await campaignTablePage.isStoryboardTabDisabled()).toBe(true)
+    expect(await campaignTablePage.isGenerateStoryboardLoading()).toBe(true)
+    expect(await campaignTablePage.isGenerateStoryboardClickable()).toBe(false)
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+    expect(await campaignTablePage.isRetryGenerateStoryboardVisible()).toBe(false)
+  })
+
+  test('should open the storyboard with empty sections when generation returns partial copy', async ({
+    campaignId,
+    generationSimulator,
+  }) => {
+    const storyboard = partialStoryboard(campaignId)
+    await generationSimulator.simulate('storyboard', { state: 'completed', afterMs: 1000, output: storyboard })
+    await campaignTablePage.clickGenerateStoryboard()
+
+    await campaignTablePage.waitForStoryboardTabEnabled(15000)
+    expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(false)
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+    expect(await campaignTablePage.waitForGenerateStoryboardClickable()).toBe(true)
+
+    await campaignTablePage.clickStoryboardTab()
+    await storyboardPage.verifySectionsVisible()
+
+    // The copy that was generated, and blanks left to fill in by hand
+    await storyboardPage.verifyForm(storyboardToDraft(storyboard))
+    expect(await storyboardPage.isSaveButtonDisabled()).toBe(true)
+  })
+
+  test('should show why generation was rejected for an incomplete campaign brief', async ({
+    generationSimulator,
+  }) => {
+    const message = 'Campaign brief is incomplete: add a target audience and key message'
+    await generationSimulator.simulate('storyboard', { state: 'rejected', message })
+
+    expect(await campaignTablePage.clickGenerateStoryboardExpectingRejection()).toBe(message)
+    await campaignTablePage.waitForErrorMessage(message)
+
+    // Nothing started, so nothing to wait for or retry, the brief needs fixing first
+    expect(await campaignTablePage.isGenerateStoryboardLoading()).toBe(false)
+    expect(await campaignTablePage.isStoryboardTabSpinning()).toBe(false)
+    expect(await campaignTablePage.isStoryboardGenerationErrorVisible()).toBe(false)
+    expect(await campaignTablePage.isRetryGenerateStoryboardVisible()).toBe(false)
+    expect(await campaignTablePage.isGenerateStoryboardClickable()).toBe(true)
+  })
+})
@@ -0,0 +1,59 @@
+import { test } from '@playwright/test'
+import { env } from '../../env'
+import { campaignNameSuffix, REPLAY_RUN_TAG } from './api/har-normaliser'
+import { TestDataRegistry } from './test-data-registry'
+
+/**
+ * What a campaign name generated by the suite is made of
+ */
+export type GeneratedCampaignName = {
+  prefix: string
+  runTag: string
+}
+
+/**
+ * Prefix of the campaigns the suite creates
+ */
+export const DEFAULT_CAMPAIGN_PREFIX = 'duc'
+
+// Names handed out per test attempt while replaying
+const replayNameCounts = new Map<string, number>()
+
+const GENERATED_NAME_PATTERN = /^(.+) - [0-9a-f]{8} \[([0-9a-f]{8})\]$/
+
+/**
+ * Generate a unique campaign name tagged with the run, e.g. "duc - 1a2b3c4d [5f3a2b1c]"
+ *
+ * Replays hand out the names recordings were normalised to instead, "duc - 00000001 [00000000]", ...
+ *
+ * @param testData - registry that deletes the campaign after the test, for campaigns created through the UI
+ */
+export function generateUniqueCampaignName(
+  prefix: string = DEFAULT_CAMPAIGN_PREFIX,
+  testData?: TestDataRegistry
+): string {
+  const name = createCampaignName(prefix)
+  testData?.recordCampaign(name)
+  return name
+}
+
+const createCampaignName = (prefix: string): string => {
+  if (env.NETWORK_MODE === 'replay') {
+    const { testId, retry } = test.info()
+    const key = `${testId}:${retry}`
+    const count = (replayNameCounts.get(key) ?? 0) + 1
+    replayNameCounts.set(key, count)
+    return `${prefix} - ${campaignNameSuffix(count)} [${REPLAY_RUN_TAG}]`
+  }
+
+  const uuid = crypto.randomUUID().substring(0, 8)
+  return `${prefix} - ${uuid} [${env.TEST_RUN_TAG}]`
+}
+
+/**
+ * Split a name from generateUniqueCampaignName(), undefined for any other campaign
+ */
+export function parseGeneratedCampaignName(name: string): GeneratedCampaignName | undefined {
+  const match = GENERATED_NAME_PATTERN.exec(name)
+  return match ? { prefix: match[1], runTag: match[2] } : undefined
+}
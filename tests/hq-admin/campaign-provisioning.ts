@@ -0,0 +1,92 @@
+import { Browser, expect, Page } from '@playwright/test'
+import { authFile } from '../../config'
+import { ensureStorageState } from './api/hq-admin-auth'
+import { CampaignTablePage } from './campaign-lifecycle/page-objects/campaign-table.page'
+import { resolveFeatureFlags, setFeatureFlags } from './feature-flags'
+
+/**
+ * Setting up and cleaning up campaigns through the UI, for environments whose API the
+ * HqAdminApiClient was not checked against yet, see apiChecked in config.ts
+ */
+
+export type ProvisionedCampaign = {
+  id: string
+  name: string
+}
+
+/**
+ * Run a callback in a fresh HQ Admin context logged in as admin with the default feature flags,
+ * separate from the test's page
+ */
+export async function withHqAdminPage<T>(
+  browser: Browser,
+  callback: (page: Page) => Promise<T>
+): Promise<T> {
+  await ensureStorageState('admin')
+  const context = await browser.newContext({ storageState: authFile.hqAdmin.admin })
+  await setFeatureFlags(context, resolveFeatureFlags())
+  try {
+    return await callback(await context.newPage())
+  } finally {
+    await context.close()
+  }
+}
+
+/**
+ * Create a campaign through the campaigns table and wait for its storyboard to finish generating
+ */
+export async function createCampaignThroughUi(page: Page): Promise<ProvisionedCampaign> {
+  const campaignTablePage = new CampaignTablePage(page)
+
+  await campaignTablePage.navigateToPage()
+  await campaignTablePage.clickLaunchNewCampaign()
+  await campaignTablePage.waitForLaunchCampaignModal()
+  await campaignTablePage.clickManualCreationLink()
+  await campaignTablePage.waitForCreatePage()
+
+  const name = campaignTablePage.generateUniqueCampaignName()
+  await campaignTablePage.fillCampaignName(name)
+  await expect(async () => {
+    expect(await campaignTablePage.isUpdateCampaignBriefEnabled()).toBe(true)
+  }).toPass({ timeout: 5000 })
+  await campaignTablePage.clickUpdateCampaignBrief()
+
+  const id = await campaignTablePage.waitForDetailsPage()
+  if (!id) {
+    throw new Error(`Could not read the ID of campaign "${name}" from ${page.url()}`)
+  }
+
+  try {
+    await expect(async () => {
+      expect(await campaignTablePage.isGenerateStoryboardEnabled()).toBe(true)
+    }).toPass({ timeout: 10000 })
+    await campaignTablePage.clickGenerateStoryboard()
+    await campaignTablePage.waitForStoryboardTab(10000)
+    await campaignTablePage.waitForStoryboardTabEnabled()
+  } catch (error) {
+    // Don't leave a half-provisioned campaign behind
+    await deleteCampaignThroughUi(page, name)
+    throw error
+  }
+
+  return { id, name }
+}
+
+/**
+ * Delete the campaign with the name through the campaigns table, false if there is none
+ */
+export async function deleteCampaignThroughUi(page: Page, name: string): Promise<boolean> {
+  const campaignTablePage = new CampaignTablePage(page)
+
+  await campaignTablePage.navigateToPage()
+  await campaignTablePage.searchCampaign(name, { expectMatch: false })
+  if (!(await (await campaignTablePage.findCampaignRow(name)).isVisible())) {
+    return false
+  }
+  await campaignTablePage.selectCampaignRow(name)
+  await campaignTablePage.clickDeleteSelectedCampaigns()
+  await campaignTablePage.waitForDeleteConfirmModal()
+  await campaignTablePage.confirmDelete()
+  await campaignTablePage.waitForDeleteSuccess()
+  return true
+}
@@ -0,0 +1,75 @@
+import { BrowserContext } from '@playwright/test'
+import { domain } from '../../config'
+
+type FeatureFlagDefinition = {
+  // localStorage key the app reads the flag from
+  key: `hq-admin.${string}`
+  default: boolean
+  description: string
+}
+
+/**
+ * Known HQ Admin feature flags and the value tests run with unless they override it
+ */
+export const featureFlags = {
+  campaignAi: {
+    key: 'hq-admin.campaignAi',
+    default: true,
+    description: 'AI generated Storyboard & Copy and previews for campaigns',
+  },
+} satisfies Record<string, FeatureFlagDefinition>
+
+export type FeatureFlag = keyof typeof featureFlags
+
+export type FeatureFlags = Record<FeatureFlag, boolean>
+
+const flagNames = Object.keys(featureFlags) as FeatureFlag[]
+
+/**
+ * Every known flag, overrides applied on top of the defaults
+ */
+export function resolveFeatureFlags(overrides: Partial<FeatureFlags> = {}): FeatureFlags {
+  const flags = {} as FeatureFlags
+  for (const name of flagNames) {
+    flags[name] = overrides[name] ?? featureFlags[name].default
+  }
+  return flags
+}
+
+/**
+ * The localStorage entries that turn the flags on or off in the app
+ */
+export function toLocalStorage(flags: FeatureFlags): Array<[string, string]> {
+  return flagNames.map((name) => {
+    return [featureFlags[name].key, String(flags[name])]
+  })
+}
+
+/**
+ * Set the flags in every HQ Admin page of the context before any app script runs, so the app
+ * reads them on its first load
+ */
+export async function setFeatureFlags(context: BrowserContext, flags: FeatureFlags): Promise<void> {
+  await context.addInitScript(
+    ({ origin, entries }) => {
+      if (location.origin !== origin) {
+        return
+      }
+      for (const [key, value] of entries) {
+        localStorage.setItem(key, value)
+      }
+    },
+    { origin: domain.hqAdmin, entries: toLocalStorage(flags) }
+  )
+}
+
+/**
+ * One-line summary for reports, e.g. "campaignAi=true"
+ */
+export function formatFeatureFlags(flags: FeatureFlags): string {
+  return flagNames
+    .map((name) => {
+      return `${name}=${flags[name]}`
+    })
+    .join(', ')
+}
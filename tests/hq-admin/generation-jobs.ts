@@ -0,0 +1,154 @@
+import { test } from '@playwright/test'
+import { apiChecked, GenerationBudget, generationBudgets, GenerationKind } from '../../config'
+import { env } from '../../env'
+import { HqAdminApiClient } from './api/hq-admin-api.client'
+import { GenerationJob } from './api/schemas'
+
+/**
+ * How waiting for a job ended, anything but 'completed' fails the test
+ */
+export type GenerationOutcome = 'completed' | 'failed' | 'stalled' | 'timedOut'
+
+/**
+ * A status or progress change seen while polling, elapsedMs counted from the first poll
+ */
+export type GenerationProgress = {
+  elapsedMs: number
+  status: GenerationJob['status']
+  progress?: number | null
+}
+
+export type WaitForGenerationOptions = {
+  kind: GenerationKind
+  // Defaults to the budget of APP_ENV in config.ts
+  budget?: Partial<GenerationBudget>
+  pollIntervalMs?: number
+}
+
+const DEFAULT_POLL_INTERVAL = 2000
+
+export class GenerationJobError extends Error {
+  readonly outcome: Exclude<GenerationOutcome, 'completed'>
+  readonly job: GenerationJob
+  readonly history: GenerationProgress[]
+
+  constructor(
+    outcome: Exclude<GenerationOutcome, 'completed'>,
+    summary: string,
+    job: GenerationJob,
+    history: GenerationProgress[]
+  ) {
+    super(`${summary}\n${formatHistory(history)}`)
+    this.name = 'GenerationJobError'
+    this.outcome = outcome
+    this.job = job
+    this.history = history
+  }
+}
+
+const seconds = (ms: number): string => {
+  return `${Math.round(ms / 1000)}s`
+}
+
+const describeJob = (job: Pick<GenerationJob, 'status' | 'progress'>): string => {
+  return job.progress === null || job.progress === undefined
+    ? job.status
+    : `${job.status} ${job.progress}%`
+}
+
+function formatHistory(history: GenerationProgress[]): string {
+  return [
+    'Job history:',
+    ...history.map((entry) => {
+      return `  ${seconds(entry.elapsedMs).padStart(5)} ${describeJob(entry)}`
+    }),
+  ].join('\n')
+}
+
+/**
+ * Poll a storyboard or preview generation job until it completes
+ *
+ * Every status or progress change shows up as a test step. Throws a GenerationJobError
+ * when the job fails, stalls or runs past its budget, with the statuses seen so far
+ *
+ * Replays have no backend to poll, the recorded responses the app polls decide instead. Neither
+ * do environments the API wasn't checked against, see apiChecked in config.ts, the UI waits
+ * that follow decide there
+ */
+export async function waitForGenerationJob(
+  hqAdminApi: HqAdminApiClient,
+  job: GenerationJob,
+  options: WaitForGenerationOptions
+): Promise<GenerationJob> {
+  const { kind } = options
+  const budget = { ...generationBudgets[kind], ...options.budget }
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL
+  const label = `${kind} generation job ${job.id}`
+
+  return await test.step(
+    `Wait for ${label}`,
+    async () => {
+      if (env.NETWORK_MODE === 'replay') {
+        await test.step(`${label}: not polled in replay`, async () => {})
+        return job
+      }
+      if (!apiChecked) {
+        await test.step(`${label}: not polled, the API of ${env.APP_ENV} is not checked`, async () => {})
+        return job
+      }
+
+      const history: GenerationProgress[] = []
+      const startedAt = Date.now()
+      let lastChangeAt = startedAt
+      let current = job
+
+      for (;;) {
+        current = await hqAdminApi.getGenerationJob(job.id)
+        const now = Date.now()
+        const previous = history[history.length - 1]
+        if (
+          !previous ||
+          previous.status !== current.status ||
+          previous.progress !== current.progress
+        ) {
+          lastChangeAt = now
+          history.push({ elapsedMs: now - startedAt, status: current.status, progress: current.progress })
+          await test.step(`${label}: ${describeJob(current)} after ${seconds(now - startedAt)}`, async () => {})
+        }
+
+        if (current.status === 'completed') {
+          return current
+        }
+        if (current.status === 'failed') {
+          throw new GenerationJobError(
+            'failed',
+            `${label} failed after ${seconds(now - startedAt)}: ${current.error ?? 'no error reported'}`,
+            current,
+            history
+          )
+        }
+        if (now - startedAt >= budget.timeoutMs) {
+          throw new GenerationJobError(
+            'timedOut',
+            `${label} timed out: still ${describeJob(current)} after the ${seconds(budget.timeoutMs)} budget of ${env.APP_ENV}`,
+            current,
+            history
+          )
+        }
+        if (now - lastChangeAt >= budget.stallMs) {
+          throw new GenerationJobError(
+            'stalled',
+            `${label} stalled: ${describeJob(current)} unchanged for ${seconds(now - lastChangeAt)}, ${seconds(budget.stallMs)} allowed`,
+            current,
+            history
+          )
+        }
+
+        await new Promise((resolve) => {
+          setTimeout(resolve, pollIntervalMs)
+        })
+      }
+    },
+    { box: true }
+  )
+}
@@ -0,0 +1,271 @@
+import { Page, Request, Response, Route } from '@playwright/test'
+import { api, GenerationKind } from '../../config'
+import { hqAdminEndpoints, matchesEndpoint, matchesRequest } from './api/hq-admin-responses'
+import { GenerationJob, Storyboard } from './api/schemas'
+
+/**
+ * A generated preview as the previews endpoint lists it
+ */
+export type PreviewItem = {
+  id: number | string
+  createdAt: string
+}
+
+type GenerationOutputs = {
+  storyboard: Storyboard
+  preview: PreviewItem[]
+}
+
+/**
+ * What a simulated generation job does, pending until afterMs has passed (0 by default)
+ *
+ * - completed: with canned output, the backend's own storyboard / previews otherwise
+ * - failed: with the error the job reports
+ * - stuck: running forever, for asserting loading states
+ * - rejected: no job at all, the generation request fails with the status (422 by default) and message
+ */
+export type GenerationScenario<K extends GenerationKind = GenerationKind> =
+  | { state: 'completed'; afterMs?: number; output?: GenerationOutputs[K] }
+  | { state: 'failed'; afterMs?: number; error: string }
+  | { state: 'stuck' }
+  | { state: 'rejected'; status?: number; message: string }
+
+type JobScenario = Exclude<GenerationScenario, { state: 'rejected' }>
+
+type SimulatedJob = {
+  id: string
+  kind: GenerationKind
+  scenario: JobScenario
+  startedAt: number
+  // Options the preview was generated with, echoed back as the previews' config
+  config: JsonObject
+}
+
+type JsonObject = Record<string, unknown>
+
+const API_URL_PATTERN = `${api.hqAdmin}/**`
+
+const DEFAULT_REJECTION_STATUS = 422
+
+// Progress a stuck job reports, forever
+const STUCK_PROGRESS = 50
+
+const DEFAULT_PREVIEW_CONFIG = {
+  type: 'image',
+  prompt: '',
+  duration: 5,
+  fps: 24,
+  multiShoot: false,
+}
+
+/**
+ * Forces storyboard and preview generation into a chosen state by intercepting
+ * the generation endpoints and the status polls of the app
+ *
+ * Generation requests never reach the backend while a scenario is set. Status polls are
+ * answered from the last real response with the simulated status patched in, so
+ * simulations work the same live, recorded or replayed
+ *
+ * Create it before the page loads the campaign, so it has a real response to patch,
+ * and follow its jobs through the UI, they never reach waitForGenerationJob()
+ */
+export class GenerationSimulator {
+  private readonly page: Page
+  private readonly scenarios = new Map<GenerationKind, GenerationScenario>()
+  private readonly jobs = new Map<string, SimulatedJob>()
+  private readonly latestJobs = new Map<GenerationKind, SimulatedJob>()
+  // Last real responses of the polled endpoints, by URL
+  private readonly realResponses = new Map<string, JsonObject>()
+  private readonly fulfilled = new WeakSet<Request>()
+  // Previews of the last simulated job that completed, kept while later ones run or fail
+  private simulatedPreviewItems?: PreviewItem[]
+  private nextJobId = 1
+  private isRouted = false
+
+  constructor(page: Page) {
+    this.page = page
+    this.page.on('response', this.rememberResponse)
+  }
+
+  /**
+   * Answer every generation of the kind the app starts from now on with the scenario
+   */
+  async simulate<K extends GenerationKind>(kind: K, scenario: GenerationScenario<K>): Promise<void> {
+    this.scenarios.set(kind, scenario)
+    if (this.isRouted) {
+      return
+    }
+    this.isRouted = true
+    await this.page.route(API_URL_PATTERN, this.handleRoute)
+  }
+
+  /**
+   * Let generation and its status polls reach the backend again
+   */
+  stop(kind: GenerationKind): void {
+    this.scenarios.delete(kind)
+    this.latestJobs.delete(kind)
+  }
+
+  /**
+   * The simulated job the app started last, undefined if it started none
+   */
+  latestJob(kind: GenerationKind): GenerationJob | undefined {
+    const job = this.latestJobs.get(kind)
+    return job ? this.toGenerationJob(job) : undefined
+  }
+
+  async dispose(): Promise<void> {
+    this.page.off('response', this.rememberResponse)
+    if (this.isRouted) {
+      await this.page.unroute(API_URL_PATTERN, this.handleRoute)
+    }
+  }
+
+  private readonly rememberResponse = async (response: Response): Promise<void> => {
+    if (this.fulfilled.has(response.request()) || !response.ok()) {
+      return
+    }
+    if (
+      !matchesEndpoint(response, hqAdminEndpoints.getCampaign()) &&
+      !matchesEndpoint(response, hqAdminEndpoints.listPreviews())
+    ) {
+      return
+    }
+    const body = await response.json().catch(() => {
+      return undefined
+    })
+    if (body) {
+      this.realResponses.set(response.url(), body)
+    }
+  }
+
+  private readonly handleRoute = async (route: Route): Promise<void> => {
+    const response = this.simulatedResponse(route.request())
+    if (!response) {
+      await route.fallback()
+      return
+    }
+    this.fulfilled.add(route.request())
+    await route.fulfill(response)
+  }
+
+  /**
+   * What the simulation answers the request with, undefined to let it through
+   */
+  private simulatedResponse(request: Request): { status?: number; json: unknown } | undefined {
+    for (const kind of ['storyboard', 'preview'] as const) {
+      const scenario = this.scenarios.get(kind)
+      const generate =
+        kind === 'storyboard' ? hqAdminEndpoints.generateStoryboard() : hqAdminEndpoints.generatePreview()
+      if (!scenario || !matchesRequest(request, generate)) {
+        continue
+      }
+      if (scenario.state === 'rejected') {
+        return { status: scenario.status ?? DEFAULT_REJECTION_STATUS, json: { message: scenario.message } }
+      }
+      return { status: 202, json: this.toGenerationJob(this.startJob(kind, scenario, request)) }
+    }
+
+    if (matchesRequest(request, hqAdminEndpoints.getGenerationJob())) {
+      const job = this.jobs.get(new URL(request.url()).pathname.split('/').pop() ?? '')
+      return job ? { json: this.toGenerationJob(job) } : undefined
+    }
+
+    const storyboardJob = this.latestJobs.get('storyboard')
+    if (storyboardJob && matchesRequest(request, hqAdminEndpoints.getCampaign())) {
+      return this.patchCampaign(request, storyboardJob)
+    }
+    if (storyboardJob && matchesRequest(request, hqAdminEndpoints.getStoryboard())) {
+      return this.cannedStoryboard(storyboardJob)
+    }
+
+    const previewJob = this.latestJobs.get('preview')
+    if (previewJob && matchesRequest(request, hqAdminEndpoints.listPreviews())) {
+      return this.patchPreviews(request, previewJob)
+    }
+    return undefined
+  }
+
+  private startJob(kind: GenerationKind, scenario: JobScenario, request: Request): SimulatedJob {
+    const job: SimulatedJob = {
+      id: `simulated-${kind}-${this.nextJobId++}`,
+      kind,
+      scenario,
+      startedAt: Date.now(),
+      config: kind === 'preview' ? (request.postDataJSON() ?? {}) : {},
+    }
+    this.jobs.set(job.id, job)
+    this.latestJobs.set(kind, job)
+    return job
+  }
+
+  private toGenerationJob(job: SimulatedJob): GenerationJob {
+    const { scenario } = job
+    if (scenario.state === 'stuck') {
+      return { id: job.id, status: 'running', progress: STUCK_PROGRESS, error: null }
+    }
+
+    const elapsed = Date.now() - job.startedAt
+    const afterMs = scenario.afterMs ?? 0
+    if (elapsed < afterMs) {
+      const progress = Math.floor((elapsed / afterMs) * 100)
+      return { id: job.id, status: 'pending', progress, error: null }
+    }
+    return scenario.state === 'failed'
+      ? { id: job.id, status: 'failed', progress: null, error: scenario.error }
+      : { id: job.id, status: 'completed', progress: 100, error: null }
+  }
+
+  /**
+   * The campaign as last loaded, with the storyboard status and error of the simulated job
+   */
+  private patchCampaign(request: Request, job: SimulatedJob): { json: JsonObject } | undefined {
+    const campaign = this.realResponses.get(request.url())
+    if (!campaign) {
+      return undefined
+    }
+    const { status, error } = this.toGenerationJob(job)
+    const storyboardStatus = status === 'pending' || status === 'running' ? 'generating' : status
+    return { json: { ...campaign, storyboardStatus, storyboardError: error ?? null } }
+  }
+
+  private cannedStoryboard(job: SimulatedJob): { json: Storyboard } | undefined {
+    const { scenario } = job
+    if (scenario.state !== 'completed' || !scenario.output) {
+      return undefined
+    }
+    if (this.toGenerationJob(job).status !== 'completed') {
+      return undefined
+    }
+    return { json: scenario.output as Storyboard }
+  }
+
+  /**
+   * The previews as last loaded, with the status and output of the simulated job
+   */
+  private patchPreviews(request: Request, job: SimulatedJob): { json: JsonObject } {
+    const previews = this.realResponses.get(request.url()) ?? {}
+    const realItems = Array.isArray(previews.items) ? (previews.items as PreviewItem[]) : []
+    const { status, error } = this.toGenerationJob(job)
+    const { scenario } = job
+
+    let items = this.simulatedPreviewItems ?? realItems
+    if (status === 'completed') {
+      const output = scenario.state === 'completed' ? (scenario.output as PreviewItem[] | undefined) : undefined
+      const generated = { id: job.id, createdAt: new Date(job.startedAt).toISOString() }
+      items = output ?? (items.length > 0 ? items : [generated])
+      this.simulatedPreviewItems = items
+    }
+
+    return {
+      json: {
+        ...previews,
+        status: status === 'pending' || status === 'running' ? 'generating' : status,
+        items,
+        config: { ...DEFAULT_PREVIEW_CONFIG, ...(previews.config as JsonObject | undefined), ...job.config },
+        error: error ?? null,
+      },
+    }
+  }
+}
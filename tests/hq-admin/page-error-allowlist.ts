@@ -0,0 +1,9 @@
+import { AllowedPageError } from './page-error-guard'
+
+/**
+ * Errors HQ Admin reports that are known noise rather than bugs, by route
+ *
+ * Every entry says why, remove it once the noise is fixed. For an error a test provokes on
+ * purpose, use pageErrors.allow() in that test instead
+ */
+export const pageErrorAllowlist: AllowedPageError[] = []
@@ -0,0 +1,160 @@
+import { ConsoleMessage, Page, Response } from '@playwright/test'
+import { currentPageObjectStep } from './page-object-steps'
+import { pageErrorAllowlist } from './page-error-allowlist'
+
+export type PageErrorKind = 'console.error' | 'pageerror' | 'unhandledrejection' | 'response'
+
+/**
+ * Something the page reported going wrong during a test
+ */
+export type PageError = {
+  kind: PageErrorKind
+  message: string
+  // Path of the page at the time, e.g. /hq-admin/campaigns/details/7482/campaign-details
+  route: string
+  // The page object call that was running, see page-object-steps.ts
+  step?: string
+  // Why it is known noise, when it is
+  allowed?: string
+}
+
+/**
+ * Known noise, matched on the kind, message and route of an error
+ */
+export type AllowedPageError = {
+  kind?: PageErrorKind
+  message: RegExp
+  // Any route when not given
+  route?: RegExp
+  reason: string
+}
+
+// Exposed to the init script, which reports unhandled rejections through it
+const REJECTION_BINDING = '__hqAdminUnhandledRejection'
+
+// Chromium logs every failed resource as a console error, 5xx responses are reported on their own
+const FAILED_RESOURCE = /^Failed to load resource: the server responded with a status of \d+/
+
+/**
+ * Collects console errors, uncaught exceptions, unhandled rejections and 5xx responses of a page,
+ * see the page errors fixture
+ */
+export class PageErrorGuard {
+  private readonly page: Page
+  private readonly allowlist: AllowedPageError[]
+  private readonly collected: PageError[] = []
+
+  constructor(page: Page, allowlist: AllowedPageError[] = pageErrorAllowlist) {
+    this.page = page
+    this.allowlist = [...allowlist]
+  }
+
+  /**
+   * Start listening, before the page loads anything
+   */
+  async start(): Promise<void> {
+    await this.page.exposeBinding(REJECTION_BINDING, (_source, reason: string) => {
+      this.collect('unhandledrejection', reason)
+    })
+    await this.page.addInitScript((binding) => {
+      window.addEventListener('unhandledrejection', (event) => {
+        // Reported here rather than as a pageerror, which can't tell it from a thrown error
+        event.preventDefault()
+        const reason: unknown = event.reason
+        const report = (window as unknown as Record<string, (message: string) => void>)[binding]
+        void report(reason instanceof Error ? `${reason.name}: ${reason.message}` : String(reason))
+      })
+    }, REJECTION_BINDING)
+    this.page.on('console', this.onConsole)
+    this.page.on('pageerror', this.onPageError)
+    this.page.on('response', this.onResponse)
+  }
+
+  /**
+   * Stop listening, what was collected stays
+   */
+  stop(): void {
+    this.page.off('console', this.onConsole)
+    this.page.off('pageerror', this.onPageError)
+    this.page.off('response', this.onResponse)
+  }
+
+  /**
+   * Allow an error for the rest of the test, e.g. one it provokes on purpose
+   */
+  allow(allowed: AllowedPageError): void {
+    this.allowlist.push(allowed)
+  }
+
+  /**
+   * Everything collected so far, allowed or not, in order
+   */
+  get errors(): PageError[] {
+    return [...this.collected]
+  }
+
+  /**
+   * The errors that are not known noise
+   */
+  get unexpected(): PageError[] {
+    return this.collected.filter((error) => {
+      return error.allowed === undefined
+    })
+  }
+
+  private readonly onConsole = (message: ConsoleMessage): void => {
+    if (message.type() === 'error' && !FAILED_RESOURCE.test(message.text())) {
+      this.collect('console.error', message.text())
+    }
+  }
+
+  private readonly onPageError = (error: Error): void => {
+    this.collect('pageerror', `${error.name}: ${error.message}`)
+  }
+
+  private readonly onResponse = (response: Response): void => {
+    if (response.status() >= 500) {
+      this.collect('response', `${response.status()} ${response.request().method()} ${response.url()}`)
+    }
+  }
+
+  private collect(kind: PageErrorKind, message: string): void {
+    const route = routeOf(this.page.url())
+    const allowed = this.allowlist.find((candidate) => {
+      return (
+        (candidate.kind === undefined || candidate.kind === kind) &&
+        candidate.message.test(message) &&
+        (candidate.route === undefined || candidate.route.test(route))
+      )
+    })
+    this.collected.push({ kind, message, route, step: currentPageObjectStep(this.page), allowed: allowed?.reason })
+  }
+}
+
+function routeOf(url: string): string {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
+
+/**
+ * The errors grouped by the page object call that was running, in the order the groups started
+ */
+export function formatPageErrors(errors: PageError[]): string {
+  const groups = new Map<string, PageError[]>()
+  for (const error of errors) {
+    const step = error.step ?? '(no page object call)'
+    groups.set(step, [...(groups.get(step) ?? []), error])
+  }
+  return [...groups.entries()]
+    .map(([step, stepErrors]) => {
+      const lines = stepErrors.map((error) => {
+        const allowed = error.allowed === undefined ? '' : ` (allowed: ${error.allowed})`
+        return `  [${error.kind}] ${error.route}: ${error.message}${allowed}`
+      })
+      return `${step}\n${lines.join('\n')}`
+    })
+    .join('\n\n')
+}
@@ -0,0 +1,58 @@
+import { Page } from '@playwright/test'
+
+// Page object calls running right now on each page, oldest first, e.g. StoryboardAndCopyPage.navigateToPage
+// Kept per page so a call a test left hanging doesn't show up in the next test of the worker
+const running = new WeakMap<Page, string[]>()
+
+/**
+ * Track the calls of every method of a page object class, so what the page reports while one
+ * runs can be put down to it, see the page errors fixture
+ *
+ * Called once after the class, methods defined on the class itself are tracked, getters are not.
+ * Calls count for the page in the page object's page property
+ */
+export function trackPageObjectSteps(pageObject: { name: string; prototype: object }): void {
+  const prototype = pageObject.prototype
+  for (const name of Object.getOwnPropertyNames(prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, name)
+    const method = descriptor?.value
+    if (name === 'constructor' || typeof method !== 'function') {
+      continue
+    }
+
+    const step = `${pageObject.name}.${name}`
+    const tracked = function (this: { page?: Page }, ...args: unknown[]): unknown {
+      const page = this.page
+      if (!page) {
+        return method.apply(this, args)
+      }
+      const steps = running.get(page) ?? []
+      running.set(page, steps)
+      steps.push(step)
+      const done = (): void => {
+        steps.splice(steps.lastIndexOf(step), 1)
+      }
+      let result: unknown
+      try {
+        result = method.apply(this, args)
+      } catch (error) {
+        done()
+        throw error
+      }
+      if (result instanceof Promise) {
+        return result.finally(done)
+      }
+      done()
+      return result
+    }
+    Object.defineProperty(prototype, name, { ...descriptor, value: tracked })
+  }
+}
+
+/**
+ * The page object call a spec made that is still running on the page, the outermost one when it
+ * calls others
+ */
+export function currentPageObjectStep(page: Page): string | undefined {
+  return running.get(page)?.[0]
+}
@@ -0,0 +1,267 @@
+import { Page, Request } from '@playwright/test'
+import { api, MeasuredPage, PerformanceBudget } from '../../config'
+
+/**
+ * An HQ Admin API request made during a measured navigation
+ */
+export type MeasuredRequest = {
+  method: string
+  url: string
+  // Response headers and body, 0 for failed requests
+  bytes: number
+}
+
+/**
+ * What one page object navigation took
+ *
+ * Document timings are only there when the navigation loaded a document, not for tab switches
+ */
+export type NavigationMeasurement = {
+  page: MeasuredPage
+  durationMs: number
+  // Time to first byte, DOMContentLoaded and load, from the start of the document request
+  ttfbMs?: number
+  domContentLoadedMs?: number
+  loadMs?: number
+  lcpMs?: number
+  longTasks: { count: number; totalMs: number }
+  api: { count: number; bytes: number; requests: MeasuredRequest[] }
+}
+
+// What the init script collects in the page, per document
+type PagePerformance = {
+  lcp?: number
+  longTasks: { startTime: number; duration: number }[]
+}
+
+type PerformanceWindow = Window & { __hqAdminPerformance?: PagePerformance }
+
+type PageSample = {
+  timeOrigin: number
+  navigation?: { responseStart: number; domContentLoadedEventEnd: number; loadEventEnd: number }
+  performance?: PagePerformance
+}
+
+type TrackedRequest = {
+  request: Request
+  startedAt: number
+  bytes: Promise<number>
+}
+
+const monitors = new WeakMap<Page, PerformanceMonitor>()
+
+/**
+ * Measure a page object navigation with the page's performance monitor, just run it without one
+ */
+export async function measureNavigation<T>(page: Page, measuredPage: MeasuredPage, action: () => Promise<T>): Promise<T> {
+  const monitor = monitors.get(page)
+  return monitor ? await monitor.measure(measuredPage, action) : await action()
+}
+
+/**
+ * Measures page object navigations: navigation timing, LCP, long tasks and the HQ Admin API
+ * requests they make, see the performance fixture
+ *
+ * Page objects report their navigations with measureNavigation()
+ */
+export class PerformanceMonitor {
+  private readonly page: Page
+  private readonly requests: TrackedRequest[] = []
+  private readonly recorded: NavigationMeasurement[] = []
+
+  constructor(page: Page) {
+    this.page = page
+  }
+
+  /**
+   * Start observing the page, before it loads anything
+   */
+  async start(): Promise<void> {
+    monitors.set(this.page, this)
+    await this.page.addInitScript(() => {
+      const performanceWindow = window as PerformanceWindow
+      const collected: PagePerformance = { longTasks: [] }
+      performanceWindow.__hqAdminPerformance = collected
+      new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          collected.lcp = entry.startTime
+        }
+      }).observe({ type: 'largest-contentful-paint', buffered: true })
+      new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          collected.longTasks.push({ startTime: entry.startTime, duration: entry.duration })
+        }
+      }).observe({ type: 'longtask', buffered: true })
+    })
+    this.page.on('request', this.onRequest)
+  }
+
+  /**
+   * Stop observing, measurements stay
+   */
+  stop(): void {
+    this.page.off('request', this.onRequest)
+    monitors.delete(this.page)
+  }
+
+  /**
+   * Every navigation measured so far, in order
+   */
+  get measurements(): NavigationMeasurement[] {
+    return [...this.recorded]
+  }
+
+  /**
+   * Run a navigation and record what it took
+   */
+  async measure<T>(measuredPage: MeasuredPage, action: () => Promise<T>): Promise<T> {
+    const before = await this.sample()
+    const startedAt = Date.now()
+    const result = await action()
+    const durationMs = Date.now() - startedAt
+    const after = await this.sample()
+
+    const endedAt = startedAt + durationMs
+    const requests = await Promise.all(
+      this.requests
+        .filter((tracked) => {
+          return tracked.startedAt >= startedAt && tracked.startedAt <= endedAt
+        })
+        .map(async ({ request, bytes }): Promise<MeasuredRequest> => {
+          return { method: request.method(), url: request.url(), bytes: await bytes }
+        })
+    )
+    // Long tasks of the current document that started during the navigation
+    const longTasks = (after.performance?.longTasks ?? []).filter((task) => {
+      return after.timeOrigin + task.startTime >= startedAt
+    })
+    const loadedDocument = after.timeOrigin !== before.timeOrigin
+
+    this.recorded.push({
+      page: measuredPage,
+      durationMs,
+      ...(loadedDocument && after.navigation
+        ? {
+            ttfbMs: Math.round(after.navigation.responseStart),
+            domContentLoadedMs: Math.round(after.navigation.domContentLoadedEventEnd),
+            loadMs: Math.round(after.navigation.loadEventEnd),
+          }
+        : {}),
+      lcpMs: loadedDocument && after.performance?.lcp !== undefined ? Math.round(after.performance.lcp) : undefined,
+      longTasks: {
+        count: longTasks.length,
+        totalMs: Math.round(
+          longTasks.reduce((total, task) => {
+            return total + task.duration
+          }, 0)
+        ),
+      },
+      api: {
+        count: requests.length,
+        bytes: requests.reduce((total, request) => {
+          return total + request.bytes
+        }, 0),
+        requests,
+      },
+    })
+    return result
+  }
+
+  private readonly onRequest = (request: Request): void => {
+    if (!request.url().startsWith(api.hqAdmin)) {
+      return
+    }
+    const bytes = (async () => {
+      const response = await request.response()
+      if (!response) {
+        return 0
+      }
+      await response.finished()
+      const sizes = await request.sizes()
+      return sizes.responseHeadersSize + sizes.responseBodySize
+    })().catch(() => {
+      // Failed, aborted or the page closed
+      return 0
+    })
+    this.requests.push({ request, startedAt: Date.now(), bytes })
+  }
+
+  private async sample(): Promise<PageSample> {
+    return await this.page
+      .evaluate(() => {
+        const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]
+        return {
+          timeOrigin: performance.timeOrigin,
+          navigation: navigation && {
+            responseStart: navigation.responseStart,
+            domContentLoadedEventEnd: navigation.domContentLoadedEventEnd,
+            loadEventEnd: navigation.loadEventEnd,
+          },
+          performance: (window as PerformanceWindow).__hqAdminPerformance,
+        }
+      })
+      .catch(() => {
+        // Navigating away, or no document yet
+        return { timeOrigin: 0 }
+      })
+  }
+}
+
+/**
+ * Every way a measurement goes over its budget, none when within it
+ */
+export function overBudget(measurement: NavigationMeasurement, budget: PerformanceBudget): string[] {
+  const checks: [string, number | undefined, number, string][] = [
+    ['duration', measurement.durationMs, budget.durationMs, 'ms'],
+    ['LCP', measurement.lcpMs, budget.lcpMs, 'ms'],
+    ['long tasks', measurement.longTasks.totalMs, budget.longTasksMs, 'ms'],
+    ['API requests', measurement.api.count, budget.apiRequests, ''],
+    ['API bytes', measurement.api.bytes, budget.apiBytes, ' bytes'],
+  ]
+  return checks.flatMap(([label, value, limit, unit]) => {
+    return value !== undefined && value > limit
+      ? [`${measurement.page} ${label} ${value}${unit}, budget ${limit}${unit}`]
+      : []
+  })
+}
+
+/**
+ * A table of the measurements, one row per navigation, for the report
+ */
+export function formatMeasurements(measurements: NavigationMeasurement[]): string {
+  const format = (value: number | undefined): string => {
+    return value === undefined ? '-' : String(value)
+  }
+  const header = ['page', 'duration', 'ttfb', 'dcl', 'load', 'lcp', 'long tasks', 'api', 'api bytes']
+  const rows = measurements.map((measurement) => {
+    return [
+      measurement.page,
+      format(measurement.durationMs),
+      format(measurement.ttfbMs),
+      format(measurement.domContentLoadedMs),
+      format(measurement.loadMs),
+      format(measurement.lcpMs),
+      `${measurement.longTasks.count} (${measurement.longTasks.totalMs}ms)`,
+      format(measurement.api.count),
+      format(measurement.api.bytes),
+    ]
+  })
+  const widths = header.map((title, column) => {
+    return Math.max(
+      title.length,
+      ...rows.map((row) => {
+        return row[column].length
+      })
+    )
+  })
+  return [header, ...rows]
+    .map((row) => {
+      return row
+        .map((cell, column) => {
+          return cell.padEnd(widths[column])
+        })
+        .join('  ')
+        .trimEnd()
+    })
+    .join('\n')
+}
@@ -0,0 +1,52 @@
+import { TestInfo } from '@playwright/test'
+
+/**
+ * Why a test skipped, so a mostly skipped green run shows up in the skip report
+ *
+ * - environment-missing: the environment lacks something the test needs, e.g. credentials
+ * - feature-gated: the build doesn't have the capability, see requires()
+ * - precondition-not-met: the data isn't in the state the test needs, e.g. no previews yet
+ * - timing-not-observable: what the test checks happened too fast or too slow to observe
+ */
+export const skipReasons = [
+  'environment-missing',
+  'feature-gated',
+  'precondition-not-met',
+  'timing-not-observable',
+] as const
+
+export type SkipReason = (typeof skipReasons)[number]
+
+export const SKIP_REASON_ANNOTATION = 'skip-reason'
+
+/**
+ * Skip the test when the condition holds, like testInfo.skip() with a reason the skip report counts
+ *
+ * @example skipTest(testInfo, !hasPreviews, 'precondition-not-met', 'No previews to navigate')
+ */
+export function skipTest(
+  testInfo: TestInfo,
+  condition: boolean,
+  reason: SkipReason,
+  description: string
+): void {
+  if (!condition) {
+    return
+  }
+  testInfo.annotations.push({ type: SKIP_REASON_ANNOTATION, description: reason })
+  testInfo.skip(true, description)
+}
+
+/**
+ * The reason a skipped test gave, undefined for a plain testInfo.skip() or test.skip()
+ */
+export function skipReasonOf(
+  annotations: { type: string; description?: string }[]
+): SkipReason | undefined {
+  const annotation = annotations.find(({ type }) => {
+    return type === SKIP_REASON_ANNOTATION
+  })
+  return skipReasons.find((reason) => {
+    return reason === annotation?.description
+  })
+}
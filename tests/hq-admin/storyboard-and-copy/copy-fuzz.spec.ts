@@ -0,0 +1,81 @@
+import fc from 'fast-check'
+import { env } from '../../../env'
+import { test } from '../../fixtures'
+import { fuzzedCopy } from './copy-fuzz'
+import { copySectionIds } from './page-objects/copy-section.component'
+import { StoryboardDraft, formatDraftDifferences } from './page-objects/storyboard-draft'
+
+// A save and reload of the form takes a few seconds, each shrinking step repeats one
+const ROUND_TRIP_TIMEOUT = 15000
+const SHRINK_TIMEOUT = 2 * 60 * 1000
+
+/**
+ * Fills the default copy of every section and the legal copy with generated text, saves, reloads
+ * and expects the exact same text back
+ *
+ * The text comes from FUZZ_SEED, a failure is shrunk to the smallest text that still fails
+ * and prints the seed to replay it with, see copy-fuzz.ts for what gets generated
+ */
+test.describe('Storyboard Copy Fuzzing', () => {
+  test('should round-trip generated copy through save and reload', async ({ storyboardPage }, testInfo) => {
+    test.setTimeout(env.FUZZ_RUNS * ROUND_TRIP_TIMEOUT + SHRINK_TIMEOUT)
+    testInfo.annotations.push({ type: 'fuzz-seed', description: String(env.FUZZ_SEED) })
+
+    const sections = copySectionIds.map((id) => {
+      return storyboardPage.copySection(id)
+    })
+    for (const section of sections) {
+      await section.expand()
+    }
+    await storyboardPage.expandSection('legal-copy')
+
+    const copies = await Promise.all(
+      sections.map(async (section) => {
+        return fuzzedCopy({ multiline: section.multiline, maxLength: await section.getMaxLength() })
+      })
+    )
+    const legalCopy = fuzzedCopy({ multiline: true, maxLength: await storyboardPage.getLegalCopyMaxLength() })
+
+    const roundTrip = fc.asyncProperty(fc.tuple(...copies), legalCopy, async (defaults, legal) => {
+      const current = await storyboardPage.readForm()
+      const draft: StoryboardDraft = { ...current, legalCopy: legal }
+      for (const [index, section] of sections.entries()) {
+        draft[section.field] = { ...current[section.field], default: defaults[index] }
+      }
+
+      await storyboardPage.applyDraft(draft)
+      if (await storyboardPage.isSaveButtonEnabled()) {
+        await storyboardPage.clickSaveAndWait()
+      }
+      if (!(await storyboardPage.navigateToPage())) {
+        throw new Error('Storyboard & Copy page did not load after saving')
+      }
+
+      const differences = await storyboardPage.diffForm(draft)
+      if (differences.length > 0) {
+        throw new Error(`Copy changed after save and reload:\n${formatDraftDifferences(differences)}`)
+      }
+    })
+
+    const result = await fc.check(roundTrip, {
+      seed: env.FUZZ_SEED,
+      numRuns: env.FUZZ_RUNS,
+      // The fields that changed, for the shrunk text
+      includeErrorInReport: true,
+      // Report the smallest failing text found so far rather than running out the test timeout
+      interruptAfterTimeLimit: testInfo.timeout - ROUND_TRIP_TIMEOUT,
+    })
+    testInfo.annotations.push({ type: 'fuzz-runs', description: `${result.numRuns} of ${env.FUZZ_RUNS}` })
+    if (result.failed) {
+      throw new Error(
+        `Copy fuzzing failed, replay with FUZZ_SEED=${result.seed}\n\n${fc.defaultReportMessage(result)}`
+      )
+    }
+    // Out of time without a failure, fewer texts than FUZZ_RUNS round-tripped
+    if (result.interrupted) {
+      throw new Error(
+        `Copy fuzzing ran out of time after ${result.numRuns} of ${env.FUZZ_RUNS} runs, replay with FUZZ_SEED=${result.seed}`
+      )
+    }
+  })
+})
@@ -0,0 +1,122 @@
+import fc from 'fast-check'
+
+/**
+ * What a copy field takes, read from the form before generating text for it
+ */
+export type FuzzedField = {
+  // Textareas take line breaks, inputs drop them
+  multiline: boolean
+  // The field's maxlength, DEFAULT_MAX_LENGTH when it sets none
+  maxLength?: number
+}
+
+// Longest text generated for a field without a maxlength
+const DEFAULT_MAX_LENGTH = 500
+
+// Modifiers, ZWJ sequences, flags and keycaps too
+const EMOJI = ['😀', '🛍️', '🔥', '👍🏽', '👩‍👩‍👧', '🏳️‍🌈', '🇻🇳', '❤️', '1️⃣']
+
+// Acute, diaeresis, dot below, tilde and enclosing circle
+const COMBINING_MARKS = ['\u0301', '\u0308', '\u0323', '\u0303', '\u20dd']
+
+const RTL_WORDS = ['שלום', 'מבצע', 'مرحبا', 'تخفيضات', 'اشتر الآن']
+
+// Right-to-left and left-to-right marks, the bidi characters copy pasted from elsewhere carries
+const BIDI_MARKS = ['\u200f', '\u200e']
+
+// Space, tab, no-break, em and ideographic spaces
+const SPACES = [' ', '\t', '\u00a0', '\u2003', '\u3000']
+
+// Tokens as the form inserts them, and the half-formed ones typed by hand
+const TOKENS = [
+  '{{first_name}}',
+  '{{ first_name }}',
+  '{{}}',
+  '{{',
+  '}}',
+  '{{{triple}}}',
+  '{{a}}{{b}}',
+  '{{unclosed',
+]
+
+const word = fc.string({ unit: fc.constantFrom(...'abcXYZ019.,!?&<>"\'%$'), minLength: 1, maxLength: 8 })
+
+const emoji = fc.constantFrom(...EMOJI)
+
+// A letter stacked with one to three combining marks
+const combined = fc
+  .tuple(
+    fc.constantFrom('a', 'e', 'o', 'n', 'Z'),
+    fc.array(fc.constantFrom(...COMBINING_MARKS), { minLength: 1, maxLength: 3 })
+  )
+  .map(([letter, marks]) => {
+    return letter + marks.join('')
+  })
+
+const rtl = fc.tuple(fc.constantFrom(...BIDI_MARKS, ''), fc.constantFrom(...RTL_WORDS)).map(([mark, rtlWord]) => {
+  return mark + rtlWord
+})
+
+const token = fc.oneof(
+  fc.constantFrom(...TOKENS),
+  fc.stringMatching(/^[a-z_]{1,12}$/).map((name) => {
+    return `{{${name}}}`
+  })
+)
+
+// Any printable text, control characters other than the separators are dropped
+const unicode = fc.string({ unit: 'grapheme', maxLength: 20 }).map((text) => {
+  return text.replace(/\p{Cc}/gu, '')
+})
+
+function separators(field: FuzzedField): string[] {
+  return field.multiline ? [...SPACES, '\n'] : SPACES
+}
+
+/**
+ * Words mixed with the given pieces, joined by spaces and line breaks where the field takes them
+ */
+function mixed(field: FuzzedField, piece: fc.Arbitrary<string>): fc.Arbitrary<string> {
+  return fc
+    .array(fc.tuple(fc.oneof(word, piece), fc.constantFrom(...separators(field))), { minLength: 1, maxLength: 8 })
+    .map((parts) => {
+      return parts
+        .map(([text, separator]) => {
+          return text + separator
+        })
+        .join('')
+    })
+}
+
+/**
+ * Text exactly maxLength long, a short pattern repeated so a failure shrinks in a few steps
+ *
+ * ASCII only, maxlength counts UTF-16 code units
+ */
+function atMaxLength(maxLength: number): fc.Arbitrary<string> {
+  return fc.string({ unit: 'grapheme-ascii', minLength: 1, maxLength: 10 }).map((pattern) => {
+    return pattern.repeat(Math.ceil(maxLength / pattern.length)).slice(0, maxLength)
+  })
+}
+
+/**
+ * Text for a copy field, one of unicode, emoji, combining marks, right-to-left, whitespace only,
+ * exactly max-length or {{token}}-like text
+ *
+ * Never longer than the field's maxlength, and without line breaks for inputs, which drop them
+ */
+export function fuzzedCopy(field: FuzzedField): fc.Arbitrary<string> {
+  const maxLength = field.maxLength ?? DEFAULT_MAX_LENGTH
+  const kinds = [
+    mixed(field, unicode),
+    mixed(field, emoji),
+    mixed(field, combined),
+    mixed(field, rtl),
+    mixed(field, token),
+    fc.string({ unit: fc.constantFrom(...separators(field)), minLength: 1, maxLength: 10 }),
+    atMaxLength(maxLength),
+  ]
+  return fc.oneof(...kinds).filter((text) => {
+    return text.length <= maxLength
+  })
+}
@@ -0,0 +1,241 @@
+import { Page, Locator, expect } from '@playwright/test'
+import path from 'path'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { TestDataRegistry } from '../../test-data-registry'
+import { expandSection } from './copy-section.component'
+
+export type AssetUploaderOptions = {
+  // Campaign the uploads go to, needed to undo them
+  campaignId?: string
+  // Undoes uploads after the test, needs campaignId
+  testData?: TestDataRegistry
+}
+
+/**
+ * An Ant Design Dragger for reference images and style guides, with its upload list
+ *
+ * Scoped to the element holding both, e.g. the asset section of the Storyboard & Copy form.
+ * Collapsed sections it sits in are expanded before uploading
+ */
+export class AssetUploader {
+  readonly page: Page
+
+  private readonly root: Locator
+  private readonly campaignId?: string
+  private readonly testData?: TestDataRegistry
+  private readonly fileInput: Locator
+  private readonly dragger: Locator
+  private readonly items: Locator
+
+  constructor(page: Page, root: Locator, options: AssetUploaderOptions = {}) {
+    this.page = page
+    this.root = root
+    this.campaignId = options.campaignId
+    this.testData = options.testData
+
+    // Ant Design Dragger renders the file input inside the upload area
+    this.fileInput = root.locator('input[type="file"]')
+    this.dragger = root.locator('.ant-upload-drag')
+    this.items = root.locator('.ant-upload-list-item')
+  }
+
+  /**
+   * The element the uploader is scoped to, e.g. for visibility assertions
+   */
+  get locator(): Locator {
+    return this.root
+  }
+
+  /**
+   * Expand the collapsible section the uploader sits in, if it does and it's collapsed
+   */
+  async expand(): Promise<void> {
+    if ((await this.root.locator('.ant-collapse-item').count()) === 0) {
+      return
+    }
+    await expandSection(this.root)
+  }
+
+  // ==================== Upload ====================
+
+  /**
+   * Upload a file
+   */
+  async upload(filePath: string): Promise<void> {
+    await this.expand()
+    // Wait for the input to be attached to DOM (may be lazy loaded)
+    await this.fileInput.waitFor({ state: 'attached', timeout: 10000 })
+    await this.recordUpload(filePath)
+    await this.fileInput.setInputFiles(filePath)
+  }
+
+  /**
+   * Upload files one after the other, each once the previous one completed
+   */
+  async uploadMultiple(filePaths: string[]): Promise<void> {
+    await this.expand()
+
+    for (const filePath of filePaths) {
+      await this.fileInput.waitFor({ state: 'attached', timeout: 10000 })
+      await this.recordUpload(filePath)
+      await this.fileInput.setInputFiles(filePath)
+      await this.waitForUploadComplete()
+    }
+  }
+
+  /**
+   * Wait for file upload to complete (success or error)
+   */
+  async waitForUploadComplete(timeout: number = 15000): Promise<void> {
+    await expect(async () => {
+      const count = await this.root.locator('.ant-upload-list-item-uploading').count()
+      expect(count).toBe(0)
+    }).toPass({ timeout })
+  }
+
+  /**
+   * Wait for a file to show in the upload list as uploaded, fails when it errors or never does
+   */
+  async waitForUploaded(fileName: string, timeout: number = 15000): Promise<void> {
+    const item = this.items.filter({
+      has: this.page.locator('.ant-upload-list-item-name', { hasText: fileName }),
+    })
+    await expect(item.last(), `Upload of ${fileName}`).toHaveClass(/ant-upload-list-item-done/, {
+      timeout,
+    })
+  }
+
+  /**
+   * Check if there's a file currently uploading (showing progress)
+   */
+  async isFileUploading(): Promise<boolean> {
+    return (await this.root.locator('.ant-upload-list-item-uploading').count()) > 0
+  }
+
+  /**
+   * Check if an upload error is shown
+   */
+  async isUploadErrorVisible(): Promise<boolean> {
+    return await this.root.locator('.ant-upload-list-item-error').first().isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Get the count of failed uploads (status: error)
+   */
+  async getFailedUploadsCount(): Promise<number> {
+    return await this.root.locator('.ant-upload-list-item-error').count()
+  }
+
+  private async recordUpload(filePath: string): Promise<void> {
+    if (this.campaignId) {
+      await this.testData?.recordAssetUpload(this.campaignId, path.basename(filePath))
+    }
+  }
+
+  // ==================== Upload List ====================
+
+  /**
+   * Get the count of uploaded files
+   */
+  async getUploadedCount(): Promise<number> {
+    return await this.items.count()
+  }
+
+  /**
+   * Get the names of the uploaded files
+   */
+  async getUploadedNames(): Promise<string[]> {
+    const nameItems = this.root.locator('.ant-upload-list-item-name')
+    const count = await nameItems.count()
+    const names: string[] = []
+    for (let i = 0; i < count; i++) {
+      const name = await nameItems.nth(i).textContent()
+      if (name) {
+        names.push(name.trim())
+      }
+    }
+    return names
+  }
+
+  /**
+   * Check if a file appears in the upload list by name
+   */
+  async isFileInList(fileName: string): Promise<boolean> {
+    const fileNames = await this.getUploadedNames()
+    return fileNames.some((name) => name.includes(fileName))
+  }
+
+  /**
+   * Delete an uploaded file by index (0-based)
+   * The remove button appears on hover, so we need to hover first
+   */
+  async delete(index: number): Promise<void> {
+    const itemCount = await this.items.count()
+    if (itemCount > index) {
+      const item = this.items.nth(index)
+      await item.hover()
+      await item.locator('.ant-upload-list-item-action button, .anticon-delete').first().click()
+    }
+  }
+
+  /**
+   * Delete all uploaded files
+   */
+  async deleteAll(): Promise<void> {
+    await this.expand()
+    let count = await this.getUploadedCount()
+    while (count > 0) {
+      await this.delete(0)
+      // Removing is client-side until the form is saved
+      await expect(this.items).toHaveCount(count - 1, { timeout: 5000 })
+      count = await this.getUploadedCount()
+    }
+  }
+
+  /**
+   * Check if the upload list shows picture-card style (thumbnails)
+   */
+  async isPictureCardStyle(): Promise<boolean> {
+    return await this.root.locator('.ant-upload-list-picture-card').isVisible().catch(() => false)
+  }
+
+  /**
+   * Check if a thumbnail exists for an uploaded file
+   */
+  async hasFileThumbnail(index: number): Promise<boolean> {
+    const thumbnail = this.items
+      .nth(index)
+      .locator('.ant-upload-list-item-thumbnail img, .ant-upload-list-item-thumbnail .anticon')
+    return (await thumbnail.count()) > 0
+  }
+
+  // ==================== Drag Zone ====================
+
+  /**
+   * Check if the drag-and-drop zone is visible
+   */
+  async isDragZoneVisible(): Promise<boolean> {
+    await this.expand()
+    return await this.dragger.isVisible().catch(() => false)
+  }
+
+  /**
+   * Get the drag zone instruction text
+   */
+  async getDragZoneText(): Promise<string> {
+    await this.expand()
+    return (await this.root.locator('.ant-upload-text').textContent()) || ''
+  }
+
+  /**
+   * Get the drag zone hint text
+   */
+  async getDragZoneHint(): Promise<string> {
+    await this.expand()
+    return (await this.root.locator('.ant-upload-hint').textContent()) || ''
+  }
+}
+
+trackPageObjectSteps(AssetUploader)
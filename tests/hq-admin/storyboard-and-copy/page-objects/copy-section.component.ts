@@ -0,0 +1,398 @@
+import { Page, Locator, expect } from '@playwright/test'
+import { Capability } from '../../../../config'
+import { CopyField } from '../../api/schemas'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { CopyFieldKey } from './storyboard-draft'
+
+/**
+ * The collapsible sections of the Storyboard & Copy form, by their data-testid prefix
+ */
+export type StoryboardSectionId =
+  | 'headline'
+  | 'sub-headline'
+  | 'body-copy'
+  | 'cta-copy'
+  | 'legal-copy'
+  | 'asset'
+
+/**
+ * The sections with a default copy, variants and Add Token buttons
+ */
+export type CopySectionId = Extract<StoryboardSectionId, 'headline' | 'sub-headline' | 'body-copy' | 'cta-copy'>
+
+type CopySectionConfig = {
+  // As the form labels it, "Default Headline", "Variation Headline 1", ...
+  label: string
+  // The field of the storyboard it edits
+  field: CopyFieldKey
+  // Prefix of the add / delete variant button test IDs, e.g. add-body-variant-btn
+  variantTestId: string
+  multiline: boolean
+  // Builds without it have no add / delete variant buttons in the section
+  variantCapability: Capability
+}
+
+const COPY_SECTIONS: Record<CopySectionId, CopySectionConfig> = {
+  headline: {
+    label: 'Headline',
+    field: 'headline',
+    variantTestId: 'headline',
+    multiline: false,
+    variantCapability: 'headlineVariants',
+  },
+  'sub-headline': {
+    label: 'Sub Headline',
+    field: 'subHeadline',
+    variantTestId: 'sub-headline',
+    multiline: false,
+    variantCapability: 'copyVariants',
+  },
+  'body-copy': {
+    label: 'Body Copy',
+    field: 'bodyCopy',
+    variantTestId: 'body',
+    multiline: true,
+    variantCapability: 'copyVariants',
+  },
+  'cta-copy': {
+    label: 'CTA Copy',
+    field: 'ctaCopy',
+    variantTestId: 'cta',
+    multiline: false,
+    variantCapability: 'copyVariants',
+  },
+}
+
+/**
+ * Every copy section, in form order, for running a scenario over each of them
+ */
+export const copySectionIds = Object.keys(COPY_SECTIONS) as CopySectionId[]
+
+// Variants a copy section takes before Add Variant is disabled
+const MAX_VARIANTS = 5
+
+/**
+ * Capability a section needs for its add / delete variant buttons
+ */
+export function copySectionVariantCapability(id: CopySectionId): Capability {
+  return COPY_SECTIONS[id].variantCapability
+}
+
+/**
+ * Label of a section as the form shows it, e.g. "Sub Headline"
+ */
+export function copySectionLabel(id: CopySectionId): string {
+  return COPY_SECTIONS[id].label
+}
+
+/**
+ * Field of the storyboard a section edits, e.g. subHeadline
+ */
+export function copySectionField(id: CopySectionId): CopyFieldKey {
+  return COPY_SECTIONS[id].field
+}
+
+/**
+ * Parse the maxlength attribute of an input or textarea, undefined when missing or invalid
+ */
+export function parseMaxLength(attribute: string | null): number | undefined {
+  if (!attribute) {
+    return undefined
+  }
+  const maxLength = Number(attribute)
+  return Number.isInteger(maxLength) && maxLength >= 0 ? maxLength : undefined
+}
+
+// ==================== Collapse ====================
+
+/**
+ * Check if a collapsible section is expanded by checking for ant-collapse-item-active class or expanded button
+ */
+export async function isSectionExpanded(section: Locator): Promise<boolean> {
+  // First try: Check if the collapse item has the active class
+  const collapseItem = section.locator('.ant-collapse-item')
+  if (await collapseItem.count() > 0) {
+    const className = await collapseItem.getAttribute('class')
+    if (className?.includes('ant-collapse-item-active')) {
+      return true
+    }
+  }
+  // Fallback: Check if there's a button containing "expanded" in its name (vs "collapsed")
+  // Use regex to match buttons like "expanded HEADLINE", "expanded SUB HEADLINE", etc.
+  const expandedButton = section.getByRole('button', { name: /^expanded/i })
+  return (await expandedButton.count()) > 0
+}
+
+/**
+ * Expand a collapsible section if it's collapsed
+ */
+export async function expandSection(section: Locator): Promise<void> {
+  if (await isSectionExpanded(section)) {
+    return
+  }
+  // Click the collapsed button (icon) to expand
+  const collapsedButton = section.getByRole('button', { name: 'collapsed' })
+  if (await collapsedButton.count() > 0) {
+    await collapsedButton.click()
+  } else {
+    // Fallback: try clicking the collapse header
+    const header = section.locator('.ant-collapse-header')
+    if (await header.count() > 0) {
+      await header.click()
+    }
+  }
+  // Wait for the content to render, Ant Design mounts it on first expand
+  await expect(section.locator('.ant-collapse-content-active')).toBeVisible({
+    timeout: 10000,
+  })
+}
+
+/**
+ * Collapse a section by clicking its header
+ */
+export async function collapseSection(section: Locator): Promise<void> {
+  await section.locator('.ant-collapse-header').click()
+  await expect(section.locator('.ant-collapse-item-active')).toHaveCount(0, { timeout: 10000 })
+}
+
+// ==================== Copy Section ====================
+
+/**
+ * One copy section of the Storyboard & Copy form: its default copy, variants and Add Token buttons
+ *
+ * Get it from StoryboardAndCopyPage.copySection()
+ */
+export class CopySection {
+  readonly page: Page
+  readonly id: CopySectionId
+  readonly label: string
+  readonly field: CopyFieldKey
+  // Textareas, their copy can span lines
+  readonly multiline: boolean
+  // Variants the section takes before Add Variant is disabled
+  readonly maxVariants = MAX_VARIANTS
+
+  private readonly section: Locator
+  private readonly defaultInput: Locator
+  private readonly variantItems: Locator
+  private readonly addVariantButton: Locator
+  private readonly addTokenButtons: Locator
+  private readonly fieldTag: 'input' | 'textarea'
+  private readonly variantTestId: string
+
+  constructor(page: Page, id: CopySectionId) {
+    const { label, field, variantTestId, multiline } = COPY_SECTIONS[id]
+    this.page = page
+    this.id = id
+    this.label = label
+    this.field = field
+    this.multiline = multiline
+    this.variantTestId = variantTestId
+    this.fieldTag = multiline ? 'textarea' : 'input'
+
+    this.section = page.getByTestId(`${id}-section`)
+    // Targeting inputs by their labels
+    this.defaultInput = page.locator(`.ant-form-item:has-text("Default ${label}") ${this.fieldTag}`)
+    this.variantItems = this.section.locator(`.ant-form-item:has-text("Variation ${label}")`)
+    this.addVariantButton = page.getByTestId(`add-${variantTestId}-variant-btn`)
+    // The default copy has the first Add Token button, variants the ones after it
+    this.addTokenButtons = this.section.getByTestId('add-token-btn')
+  }
+
+  /**
+   * The section itself, e.g. for visibility assertions
+   */
+  get locator(): Locator {
+    return this.section
+  }
+
+  // ==================== Default Copy ====================
+
+  /**
+   * Fill the default copy
+   */
+  async fillDefault(value: string): Promise<void> {
+    await this.defaultInput.fill(value)
+    await this.defaultInput.blur()
+  }
+
+  /**
+   * Get the current value of the default copy
+   */
+  async getDefaultValue(): Promise<string> {
+    return (await this.defaultInput.inputValue()) || ''
+  }
+
+  /**
+   * Get the maxlength of the default copy, undefined when the input sets none
+   */
+  async getMaxLength(): Promise<number | undefined> {
+    return parseMaxLength(await this.defaultInput.getAttribute('maxlength'))
+  }
+
+  // ==================== Variants ====================
+
+  /**
+   * Check if the Add Variant button is visible, builds without variants have none
+   */
+  async isAddVariantVisible(): Promise<boolean> {
+    return await this.addVariantButton.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Add a variant
+   */
+  async addVariant(): Promise<void> {
+    await this.addVariantButton.click()
+  }
+
+  /**
+   * Check if the Add Variant button is disabled, e.g. at the variant limit
+   */
+  async isAddVariantDisabled(): Promise<boolean> {
+    return await this.addVariantButton.isDisabled()
+  }
+
+  /**
+   * Fill a variant by index (0-based)
+   */
+  async fillVariant(index: number, value: string): Promise<void> {
+    const variantInput = this.variantInput(index)
+    await variantInput.fill(value)
+    await variantInput.blur()
+  }
+
+  /**
+   * Get the value of a variant by index (0-based)
+   */
+  async getVariantValue(index: number): Promise<string> {
+    return (await this.variantInput(index).inputValue()) || ''
+  }
+
+  /**
+   * Delete a variant by index (0-based)
+   */
+  async deleteVariant(index: number): Promise<void> {
+    await this.page.getByTestId(`delete-${this.variantTestId}-variant-${index}`).click()
+  }
+
+  /**
+   * Get the count of variants
+   */
+  async getVariantsCount(): Promise<number> {
+    return await this.variantItems.count()
+  }
+
+  private variantInput(index: number): Locator {
+    return this.section.locator(
+      `.ant-form-item:has-text("Variation ${this.label} ${index + 1}") ${this.fieldTag}`
+    )
+  }
+
+  // ==================== Draft ====================
+
+  /**
+   * Read the default copy and variants, expanding the section to get at them
+   */
+  async read(): Promise<CopyField> {
+    await this.expand()
+    const count = await this.getVariantsCount()
+    const variants: string[] = []
+    for (let i = 0; i < count; i++) {
+      variants.push(await this.getVariantValue(i))
+    }
+    return { default: await this.getDefaultValue(), variants }
+  }
+
+  /**
+   * Fill the default copy and variants, adding or deleting variants to match
+   * Throws when the variants differ and the build has no add / delete variant buttons
+   */
+  async apply(copy: CopyField): Promise<void> {
+    await this.expand()
+    if ((await this.getDefaultValue()) !== copy.default) {
+      await this.fillDefault(copy.default)
+    }
+
+    let count = await this.getVariantsCount()
+    if (count !== copy.variants.length && !(await this.isAddVariantVisible())) {
+      throw new Error(
+        `${this.label} has ${count} variants, the draft ${copy.variants.length}, ` +
+          `and this build can't add or delete them`
+      )
+    }
+    for (; count > copy.variants.length; count--) {
+      await this.deleteVariant(count - 1)
+    }
+    for (; count < copy.variants.length; count++) {
+      await this.addVariant()
+    }
+    await expect(this.variantItems).toHaveCount(copy.variants.length, { timeout: 5000 })
+
+    for (const [index, value] of copy.variants.entries()) {
+      if ((await this.getVariantValue(index)) !== value) {
+        await this.fillVariant(index, value)
+      }
+    }
+  }
+
+  // ==================== Tokens ====================
+
+  /**
+   * Check if an Add Token button is visible in the section
+   */
+  async isAddTokenButtonVisible(): Promise<boolean> {
+    return await this.addTokenButtons.first().isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Click the Add Token button of the default copy
+   */
+  async clickAddTokenForDefault(): Promise<void> {
+    await this.addTokenButtons.first().click()
+  }
+
+  /**
+   * Click the Add Token button of a variant (0-based)
+   */
+  async clickAddTokenForVariant(index: number): Promise<void> {
+    // The first button belongs to the default copy
+    await this.addTokenButtons.nth(index + 1).click()
+  }
+
+  /**
+   * Get the count of Add Token buttons, one for the default copy and one per variant
+   */
+  async getAddTokenButtonCount(): Promise<number> {
+    return await this.addTokenButtons.count()
+  }
+
+  // ==================== Collapse ====================
+
+  /**
+   * Check if the section is expanded
+   */
+  async isExpanded(): Promise<boolean> {
+    return await isSectionExpanded(this.section)
+  }
+
+  /**
+   * Expand the section if it's collapsed
+   */
+  async expand(): Promise<void> {
+    await expandSection(this.section)
+  }
+
+  /**
+   * Collapse the section by clicking its header
+   */
+  async collapse(): Promise<void> {
+    await collapseSection(this.section)
+  }
+}
+
+trackPageObjectSteps(CopySection)
@@ -0,0 +1,85 @@
+import { Page, Locator, expect } from '@playwright/test'
+import { trackPageObjectSteps } from '../../page-object-steps'
+
+/**
+ * The carousel of generated previews, an Ant Design Carousel built on slick
+ *
+ * Get it from PreviewPanel.carousel
+ */
+export class PreviewCarousel {
+  readonly page: Page
+
+  private readonly root: Locator
+  // Only actual slides, slick clones the first and last ones for infinite scrolling
+  private readonly slides: Locator
+  private readonly dots: Locator
+
+  constructor(page: Page, root: Locator) {
+    this.page = page
+    this.root = root
+    this.slides = root.locator('.slick-slide:not(.slick-cloned)')
+    // With the navigation buttons hidden, the dots are the only way between slides
+    this.dots = root.locator('.slick-dots li button')
+  }
+
+  /**
+   * Check if the carousel is visible, it only renders once there are previews
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Click the previous button
+   * @deprecated Navigation buttons are hidden in R4.2
+   */
+  async clickPrev(): Promise<void> {
+    // Navigation buttons are hidden in R4.2
+    throw new Error('Carousel navigation buttons are hidden in R4.2')
+  }
+
+  /**
+   * Click the next button
+   * @deprecated Navigation buttons are hidden in R4.2
+   */
+  async clickNext(): Promise<void> {
+    // Navigation buttons are hidden in R4.2
+    throw new Error('Carousel navigation buttons are hidden in R4.2')
+  }
+
+  /**
+   * Get the current active slide index (0-based)
+   */
+  async getActiveSlideIndex(): Promise<number> {
+    const count = await this.slides.count()
+    for (let i = 0; i < count; i++) {
+      const className = await this.slides.nth(i).getAttribute('class')
+      if (className?.includes('slick-active') || className?.includes('slick-current')) {
+        return i
+      }
+    }
+    return 0
+  }
+
+  /**
+   * Show a slide by index (0-based) using its dot, waiting for the carousel to settle on it
+   */
+  async goToSlide(index: number): Promise<void> {
+    if ((await this.getActiveSlideIndex()) === index) {
+      return
+    }
+    await this.dots.nth(index).click()
+    await expect(this.slides.nth(index)).toHaveClass(/slick-active/, { timeout: 5000 })
+  }
+
+  /**
+   * Get the total number of slides
+   */
+  async getSlideCount(): Promise<number> {
+    return await this.slides.count()
+  }
+}
+
+trackPageObjectSteps(PreviewCarousel)
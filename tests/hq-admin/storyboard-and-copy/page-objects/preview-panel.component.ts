@@ -0,0 +1,322 @@
+import { Page, Locator, expect } from '@playwright/test'
+import path from 'path'
+import { generationBudgets } from '../../../../config'
+import { hqAdminEndpoints, waitForHqAdminResponses } from '../../api/hq-admin-responses'
+import { GenerationJob, generationJobSchema } from '../../api/schemas'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { PreviewCarousel } from './preview-carousel.component'
+
+export type PreviewOrientation = 'Portrait' | 'Landscape'
+
+// Hides the generated images and videos in screenshots, they differ on every generation
+const SCREENSHOT_STYLE_PATH = path.join(__dirname, 'preview-screenshot.css')
+
+// Regions of the preview that change between loads without the copy or styles changing
+const DYNAMIC_REGIONS = 'time, [data-testid$="timestamp"], .ant-spin, .ant-skeleton'
+
+/**
+ * Run the action that triggers preview generation, returning the job to track with waitForGenerationJob()
+ *
+ * Any campaign's generation counts when campaignId is left out
+ */
+export async function startPreviewGeneration(
+  page: Page,
+  campaignId: string | undefined,
+  action: () => Promise<void>
+): Promise<GenerationJob> {
+  const [response] = await waitForHqAdminResponses(page, [hqAdminEndpoints.generatePreview(campaignId)], action)
+  return generationJobSchema.parse(await response.json())
+}
+
+/**
+ * The preview next to a campaign's copy: orientation toggle, Generate / Generate Again,
+ * Configure Styles and the preview itself
+ *
+ * The Regenerate Preview and Campaign Style Settings modals it opens are components of their own
+ */
+export class PreviewPanel {
+  readonly page: Page
+  // Slides of the generated previews
+  readonly carousel: PreviewCarousel
+
+  private readonly root: Locator
+  private readonly campaignId?: string
+  private readonly orientationToggle: Locator
+  private readonly generateButton: Locator
+  private readonly generateAgainButton: Locator
+  private readonly configureStylesButton: Locator
+  private readonly previewContainer: Locator
+  private readonly emptyState: Locator
+
+  constructor(page: Page, root: Locator, campaignId?: string) {
+    this.page = page
+    this.root = root
+    this.campaignId = campaignId
+
+    this.orientationToggle = root.getByTestId('preview-orientation-toggle')
+    this.generateButton = root.getByTestId('generate-btn')
+    this.generateAgainButton = root.getByTestId('generate-again-btn')
+    this.configureStylesButton = root.getByTestId('configure-styles-btn')
+    this.previewContainer = root.getByTestId('campaign-preview-container')
+    this.emptyState = root.locator('.ant-empty')
+    this.carousel = new PreviewCarousel(page, root.locator('.slick-slider'))
+  }
+
+  /**
+   * The panel itself, e.g. for visibility assertions
+   */
+  get locator(): Locator {
+    return this.root
+  }
+
+  /**
+   * The preview itself, e.g. for contrast checks of its text
+   */
+  get container(): Locator {
+    return this.previewContainer
+  }
+
+  // ==================== Orientation ====================
+
+  /**
+   * Switch the preview to portrait
+   */
+  async selectPortrait(): Promise<void> {
+    if (await this.isPortraitSelected()) {
+      return
+    }
+    await this.selectOrientation('Portrait')
+  }
+
+  /**
+   * Switch the preview to landscape
+   */
+  async selectLandscape(): Promise<void> {
+    if (await this.isLandscapeSelected()) {
+      return
+    }
+    await this.selectOrientation('Landscape')
+  }
+
+  /**
+   * Check if Portrait is selected
+   */
+  async isPortraitSelected(): Promise<boolean> {
+    return await this.isOrientationSelected('Portrait')
+  }
+
+  /**
+   * Check if Landscape is selected
+   */
+  async isLandscapeSelected(): Promise<boolean> {
+    return await this.isOrientationSelected('Landscape')
+  }
+
+  /**
+   * Radio.Button's data-testid is on the hidden input, so we go through the label wrapper
+   */
+  private orientationButton(label: PreviewOrientation): Locator {
+    return this.orientationToggle.locator('label.ant-radio-button-wrapper', { hasText: label })
+  }
+
+  /**
+   * Switch orientation and wait for the toggle to show it selected
+   */
+  private async selectOrientation(label: PreviewOrientation): Promise<void> {
+    await this.orientationButton(label).click()
+    await expect(this.orientationButton(label)).toHaveClass(/ant-radio-button-wrapper-checked/)
+  }
+
+  private async isOrientationSelected(label: PreviewOrientation): Promise<boolean> {
+    const className = await this.orientationButton(label).getAttribute('class')
+    return className?.includes('ant-radio-button-wrapper-checked') ?? false
+  }
+
+  // ==================== Generate ====================
+
+  /**
+   * Click the initial Generate button to start preview generation
+   * This button appears when there are no previews yet
+   */
+  async clickGenerate(): Promise<GenerationJob> {
+    return await startPreviewGeneration(this.page, this.campaignId, async () => {
+      await this.generateButton.click()
+    })
+  }
+
+  /**
+   * Check if the initial Generate button is visible (no previews exist yet)
+   */
+  async isGenerateButtonVisible(): Promise<boolean> {
+    return await this.generateButton.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Check if Generate button is in loading state
+   */
+  async isGenerateLoading(): Promise<boolean> {
+    // In one look, the button is gone once the preview renders, reading its class after
+    // finding it visible would wait for it to come back
+    return await this.generateButton.and(this.page.locator('.ant-btn-loading')).isVisible()
+  }
+
+  /**
+   * Click the Generate Again button to open the Regenerate Preview modal
+   */
+  async clickGenerateAgain(): Promise<void> {
+    await this.generateAgainButton.click()
+  }
+
+  /**
+   * Check if the Generate Again button is visible (previews exist)
+   */
+  async isGenerateAgainButtonVisible(): Promise<boolean> {
+    return await this.generateAgainButton.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Check if Generate Again button is in loading state
+   */
+  async isGenerateAgainLoading(): Promise<boolean> {
+    const className = await this.generateAgainButton.getAttribute('class')
+    return className?.includes('ant-btn-loading') ?? false
+  }
+
+  /**
+   * Check if the Generate Again button is clickable (visible and not loading)
+   */
+  async isGenerateAgainButtonClickable(): Promise<boolean> {
+    if (!(await this.isGenerateAgainButtonVisible())) {
+      return false
+    }
+    return !(await this.isGenerateAgainLoading())
+  }
+
+  /**
+   * Wait for the Generate Again button to be clickable (not loading)
+   */
+  async waitForGenerateAgainClickable(timeout: number = 30000): Promise<boolean> {
+    try {
+      await expect(async () => {
+        const isClickable = await this.isGenerateAgainButtonClickable()
+        expect(isClickable).toBe(true)
+      }).toPass({ timeout })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Wait for the panel to load, showing either Generate or Generate Again
+   */
+  async waitForActions(timeout: number = 30000): Promise<void> {
+    await expect(this.generateButton.or(this.generateAgainButton)).toBeVisible({ timeout })
+  }
+
+  /**
+   * Wait for preview generation to complete by waiting for the Generate Again button to appear
+   * This indicates that previews have been generated, track the job itself with waitForGenerationJob()
+   */
+  async waitForGenerationComplete(timeout: number = generationBudgets.preview.timeoutMs): Promise<void> {
+    await expect(this.generateAgainButton).toBeVisible({ timeout })
+  }
+
+  // ==================== Configure Styles ====================
+
+  /**
+   * Click the Configure Styles button to open the Campaign Style Settings modal
+   */
+  async clickConfigureStyles(): Promise<void> {
+    await this.configureStylesButton.click()
+  }
+
+  /**
+   * Check if Configure Styles button is disabled
+   */
+  async isConfigureStylesDisabled(): Promise<boolean> {
+    return await this.configureStylesButton.isDisabled()
+  }
+
+  /**
+   * Check if Configure Styles button is enabled
+   */
+  async isConfigureStylesEnabled(): Promise<boolean> {
+    return await this.configureStylesButton.isEnabled()
+  }
+
+  // ==================== Preview ====================
+
+  /**
+   * Get the preview container dimensions, zero when there is no preview to measure
+   */
+  async getContainerDimensions(): Promise<{ width: number; height: number }> {
+    try {
+      await this.previewContainer.waitFor({ state: 'visible', timeout: 5000 })
+      const boundingBox = await this.previewContainer.boundingBox({ timeout: 5000 })
+      if (boundingBox) {
+        return { width: Math.round(boundingBox.width), height: Math.round(boundingBox.height) }
+      }
+    } catch {
+      // If we can't find or get the bounding box, return zero
+    }
+
+    return { width: 0, height: 0 }
+  }
+
+  /**
+   * Wait for the preview to update after orientation change or style save
+   * The data is refetched by those actions already, this waits for it to render
+   */
+  async waitForUpdate(): Promise<void> {
+    await expect(this.previewContainer).toBeVisible({ timeout: 10000 })
+  }
+
+  /**
+   * Wait for the preview to show a text, e.g. copy saved before generating it
+   */
+  async waitForText(text: string, timeout: number = 10000): Promise<void> {
+    await expect(this.previewContainer).toContainText(text, { timeout })
+  }
+
+  /**
+   * Compare every slide of the preview with its baseline, named like portrait-slide-1.png
+   *
+   * Baselines are per APP_ENV, see playwright.config.ts. Timestamps and spinners are masked,
+   * generated media hidden, so only the copy and its styles are compared
+   */
+  async verifySlideScreenshots(name: string): Promise<void> {
+    await this.waitForUpdate()
+    const count = await this.carousel.getSlideCount()
+    expect(count, 'Preview slides to compare').toBeGreaterThan(0)
+    for (let i = 0; i < count; i++) {
+      await this.carousel.goToSlide(i)
+      await expect(this.previewContainer).toHaveScreenshot(`${name}-slide-${i + 1}.png`, {
+        mask: [this.previewContainer.locator(DYNAMIC_REGIONS)],
+        stylePath: SCREENSHOT_STYLE_PATH,
+      })
+    }
+  }
+
+  /**
+   * Check if the empty state, shown before anything was generated, is visible
+   */
+  async isEmptyVisible(): Promise<boolean> {
+    return await this.emptyState.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Get the empty state description text
+   */
+  async getEmptyText(): Promise<string> {
+    return (await this.emptyState.locator('.ant-empty-description').textContent()) || ''
+  }
+}
+
+trackPageObjectSteps(PreviewPanel)
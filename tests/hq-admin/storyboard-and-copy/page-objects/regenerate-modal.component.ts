@@ -0,0 +1,180 @@
+import { Page, Locator, expect } from '@playwright/test'
+import { GenerationJob } from '../../api/schemas'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { startPreviewGeneration } from './preview-panel.component'
+
+/**
+ * The Regenerate Preview modal Generate Again opens: image or video, prompt and the video options
+ */
+export class RegenerateModal {
+  readonly page: Page
+
+  private readonly root: Locator
+  private readonly campaignId?: string
+  private readonly imageTypeRadio: Locator
+  private readonly videoTypeRadio: Locator
+  private readonly promptTextarea: Locator
+  private readonly durationInput: Locator
+  private readonly fpsInput: Locator
+  private readonly multiShootCheckbox: Locator
+  private readonly cancelButton: Locator
+  private readonly generateButton: Locator
+
+  constructor(page: Page, campaignId?: string) {
+    this.page = page
+    this.campaignId = campaignId
+
+    this.root = page.getByRole('dialog', { name: 'Regenerate Preview' })
+    this.imageTypeRadio = this.root.getByTestId('regenerate-type-image')
+    this.videoTypeRadio = this.root.getByTestId('regenerate-type-video')
+
+    const form = this.root.locator('#regenerate-preview-form')
+    this.promptTextarea = form.locator('textarea')
+    this.durationInput = form.locator('input[type="number"]').first()
+    this.fpsInput = form.locator('.ant-input-number input')
+    this.multiShootCheckbox = form.locator('.ant-checkbox')
+
+    this.cancelButton = this.root.getByTestId('regenerate-modal-cancel-btn')
+    this.generateButton = this.root.getByTestId('regenerate-modal-generate-btn')
+  }
+
+  /**
+   * The modal itself, e.g. for visibility assertions
+   */
+  get locator(): Locator {
+    return this.root
+  }
+
+  /**
+   * Check if the modal is visible
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Wait for the modal to be visible
+   */
+  async waitForVisible(): Promise<void> {
+    await expect(this.root).toBeVisible({ timeout: 10000 })
+  }
+
+  // ==================== Type ====================
+
+  /**
+   * Select the Image type
+   */
+  async selectImageType(): Promise<void> {
+    await this.imageTypeRadio.click()
+  }
+
+  /**
+   * Select the Video type
+   */
+  async selectVideoType(): Promise<void> {
+    await this.videoTypeRadio.click()
+  }
+
+  /**
+   * Check if the Image type is selected
+   */
+  async isImageTypeSelected(): Promise<boolean> {
+    return await this.imageTypeRadio.isChecked()
+  }
+
+  /**
+   * Check if the Video type is selected
+   */
+  async isVideoTypeSelected(): Promise<boolean> {
+    return await this.videoTypeRadio.isChecked()
+  }
+
+  /**
+   * Check if video-specific fields are visible (duration, fps, multi-shoot)
+   */
+  async areVideoFieldsVisible(): Promise<boolean> {
+    return await this.root.getByText('Duration:').isVisible().catch(() => {
+      return false
+    })
+  }
+
+  // ==================== Fields ====================
+
+  /**
+   * Get the current prompt value
+   */
+  async getPromptValue(): Promise<string> {
+    return (await this.promptTextarea.inputValue()) || ''
+  }
+
+  /**
+   * Fill the prompt
+   */
+  async fillPrompt(value: string): Promise<void> {
+    await this.promptTextarea.fill(value)
+  }
+
+  /**
+   * Get the duration value (video mode)
+   */
+  async getDurationValue(): Promise<string> {
+    return (await this.durationInput.inputValue()) || ''
+  }
+
+  /**
+   * Fill the duration (video mode)
+   */
+  async fillDuration(value: string): Promise<void> {
+    await this.durationInput.fill(value)
+  }
+
+  /**
+   * Get the FPS value (video mode)
+   */
+  async getFpsValue(): Promise<string> {
+    return (await this.fpsInput.inputValue()) || ''
+  }
+
+  /**
+   * Fill the FPS (video mode)
+   */
+  async fillFps(value: string): Promise<void> {
+    await this.fpsInput.fill(value)
+  }
+
+  /**
+   * Check if the multi-shoot checkbox is checked (video mode)
+   */
+  async isMultiShootChecked(): Promise<boolean> {
+    return await this.multiShootCheckbox.locator('.ant-checkbox-input').isChecked()
+  }
+
+  /**
+   * Toggle the multi-shoot checkbox (video mode)
+   */
+  async toggleMultiShoot(): Promise<void> {
+    await this.multiShootCheckbox.click()
+  }
+
+  // ==================== Actions ====================
+
+  /**
+   * Click Cancel
+   */
+  async clickCancel(): Promise<void> {
+    await this.cancelButton.click()
+  }
+
+  /**
+   * Click Generate, returning the job to track with waitForGenerationJob()
+   */
+  async clickGenerate(): Promise<GenerationJob> {
+    return await startPreviewGeneration(this.page, this.campaignId, async () => {
+      await this.generateButton.click()
+    })
+  }
+}
+
+trackPageObjectSteps(RegenerateModal)
@@ -0,0 +1,92 @@
+import { CopyField, Storyboard } from '../../api/schemas'
+
+/**
+ * The storyboard fields with a default copy and variants
+ */
+export type CopyFieldKey = 'headline' | 'subHeadline' | 'bodyCopy' | 'ctaCopy'
+
+/**
+ * Everything the Storyboard & Copy form holds, shaped like the storyboard the API returns
+ *
+ * Assets are the names in the upload list, the form has no more of them to read
+ */
+export type StoryboardDraft = Record<CopyFieldKey, CopyField> & {
+  legalCopy: string
+  assets: string[]
+}
+
+/**
+ * A difference between two drafts, at a path like headline.variants[1]
+ */
+export type DraftDifference = {
+  path: string
+  expected: unknown
+  actual: unknown
+}
+
+/**
+ * The draft the form shows for a storyboard once loaded
+ */
+export function storyboardToDraft(storyboard: Storyboard): StoryboardDraft {
+  return {
+    headline: storyboard.headline,
+    subHeadline: storyboard.subHeadline,
+    bodyCopy: storyboard.bodyCopy,
+    ctaCopy: storyboard.ctaCopy,
+    legalCopy: storyboard.legalCopy,
+    assets: storyboard.assets.map((asset) => {
+      return asset.name
+    }),
+  }
+}
+
+/**
+ * Every field where two drafts differ, none when they are equal
+ */
+export function diffDrafts(expected: StoryboardDraft, actual: StoryboardDraft): DraftDifference[] {
+  const differences: DraftDifference[] = []
+  diffValues('', expected, actual, differences)
+  return differences
+}
+
+/**
+ * The differences one per line, e.g. for a failure message or an attachment
+ */
+export function formatDraftDifferences(differences: DraftDifference[]): string {
+  if (differences.length === 0) {
+    return 'No differences'
+  }
+  return differences
+    .map(({ path, expected, actual }) => {
+      return `${path}: expected ${formatValue(expected)}, got ${formatValue(actual)}`
+    })
+    .join('\n')
+}
+
+function diffValues(path: string, expected: unknown, actual: unknown, differences: DraftDifference[]): void {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length)
+    for (let i = 0; i < length; i++) {
+      diffValues(`${path}[${i}]`, expected[i], actual[i], differences)
+    }
+    return
+  }
+  if (isObject(expected) && isObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)])
+    for (const key of keys) {
+      diffValues(path ? `${path}.${key}` : key, expected[key], actual[key], differences)
+    }
+    return
+  }
+  if (expected !== actual) {
+    differences.push({ path, expected, actual })
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value)
+}
@@ -0,0 +1,319 @@
+import { Page, Locator, expect } from '@playwright/test'
+import { trackPageObjectSteps } from '../../page-object-steps'
+import { StoryboardSectionId } from './copy-section.component'
+
+/**
+ * The copy sections the modal has styles for, by their data-testid prefix
+ */
+export type StyleSectionId = Exclude<StoryboardSectionId, 'asset'>
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+/**
+ * The Campaign Style Settings modal Configure Styles opens: typography, position and
+ * animation of each copy section in the preview
+ */
+export class StyleSettingsModal {
+  readonly page: Page
+
+  private readonly root: Locator
+  private readonly cancelButton: Locator
+  private readonly saveButton: Locator
+  // Ant Design renders select options at the end of the body, outside the modal
+  private readonly openSelectOptions: Locator
+
+  constructor(page: Page) {
+    this.page = page
+
+    this.root = page.getByRole('dialog', { name: 'Campaign Style Settings' })
+    this.cancelButton = this.root.getByTestId('campaign-style-modal-cancel-btn')
+    this.saveButton = this.root.getByTestId('campaign-style-modal-save-btn')
+    this.openSelectOptions = page.locator('.ant-select-dropdown:not(.ant-select-dropdown-hidden) .ant-select-item')
+  }
+
+  /**
+   * The modal itself, e.g. for visibility assertions
+   */
+  get locator(): Locator {
+    return this.root
+  }
+
+  /**
+   * Wait for the modal to be visible
+   */
+  async waitForVisible(): Promise<void> {
+    await expect(this.root).toBeVisible({ timeout: 10000 })
+  }
+
+  /**
+   * Check if the modal is visible
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  // ==================== Actions ====================
+
+  /**
+   * Click Cancel
+   */
+  async clickCancel(): Promise<void> {
+    await this.cancelButton.click()
+  }
+
+  /**
+   * Click Save
+   */
+  async clickSave(): Promise<void> {
+    await this.saveButton.click()
+  }
+
+  /**
+   * Click Save and wait for the save to complete and the modal to close
+   */
+  async clickSaveAndWait(): Promise<void> {
+    await this.saveButton.click()
+    await expect(this.root).not.toBeVisible({ timeout: 10000 })
+  }
+
+  /**
+   * Check if Save is enabled
+   */
+  async isSaveEnabled(): Promise<boolean> {
+    return await this.saveButton.isEnabled()
+  }
+
+  // ==================== Sections ====================
+
+  /**
+   * Check if a style section is visible
+   */
+  async isSectionVisible(section: StyleSectionId): Promise<boolean> {
+    return await this.section(section).isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Check if a style section is expanded
+   */
+  async isSectionExpanded(section: StyleSectionId): Promise<boolean> {
+    const className = await this.section(section).locator('.ant-collapse-item').getAttribute('class')
+    return className?.includes('ant-collapse-item-active') ?? false
+  }
+
+  /**
+   * Toggle (expand/collapse) a style section
+   */
+  async toggleSection(section: StyleSectionId): Promise<void> {
+    await this.section(section).locator('.ant-collapse-expand-icon').click()
+  }
+
+  /**
+   * Check if the Typography group of a style section is visible
+   */
+  async isTypographySectionVisible(section: StyleSectionId): Promise<boolean> {
+    return await this.isGroupVisible(section, 'Typography')
+  }
+
+  /**
+   * Check if the Position & Dimensions group of a style section is visible
+   */
+  async isPositionSectionVisible(section: StyleSectionId): Promise<boolean> {
+    return await this.isGroupVisible(section, 'Position & Dimensions')
+  }
+
+  /**
+   * Check if the Animation group of a style section is visible
+   */
+  async isAnimationSectionVisible(section: StyleSectionId): Promise<boolean> {
+    return await this.isGroupVisible(section, 'Animation')
+  }
+
+  // ==================== Typography ====================
+
+  /**
+   * Get the Font Size of a style section
+   */
+  async getFontSize(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Font Size'))
+  }
+
+  /**
+   * Fill the Font Size of a style section
+   */
+  async fillFontSize(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Font Size'), value)
+  }
+
+  /**
+   * Get the Font Color of a style section
+   */
+  async getFontColor(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Font Color'))
+  }
+
+  /**
+   * Fill the Font Color of a style section
+   */
+  async fillFontColor(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Font Color'), value)
+  }
+
+  /**
+   * Get the Text Align of a style section
+   */
+  async getTextAlign(section: StyleSectionId): Promise<string> {
+    return await this.getSelectValue(section, 'Text Align')
+  }
+
+  /**
+   * Select the Text Align of a style section
+   */
+  async selectTextAlign(section: StyleSectionId, value: TextAlign): Promise<void> {
+    await this.selectOption(section, 'Text Align', value)
+  }
+
+  // ==================== Position & Dimensions ====================
+
+  /**
+   * Get the Top position of a style section
+   */
+  async getTop(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Top', 'input.ant-input'))
+  }
+
+  /**
+   * Fill the Top position of a style section
+   */
+  async fillTop(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Top', 'input.ant-input'), value)
+  }
+
+  /**
+   * Get the Left position of a style section
+   */
+  async getLeft(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Left', 'input.ant-input'))
+  }
+
+  /**
+   * Fill the Left position of a style section
+   */
+  async fillLeft(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Left', 'input.ant-input'), value)
+  }
+
+  /**
+   * Get the Width of a style section
+   */
+  async getWidth(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Width', 'input.ant-input'))
+  }
+
+  /**
+   * Fill the Width of a style section
+   */
+  async fillWidth(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Width', 'input.ant-input'), value)
+  }
+
+  // ==================== Animation ====================
+
+  /**
+   * Get the Appear Animation of a style section
+   */
+  async getAppearAnimation(section: StyleSectionId): Promise<string> {
+    return await this.getSelectValue(section, 'Appear Animation')
+  }
+
+  /**
+   * Select the Appear Animation of a style section
+   */
+  async selectAppearAnimation(section: StyleSectionId, value: string): Promise<void> {
+    await this.selectOption(section, 'Appear Animation', value)
+  }
+
+  /**
+   * Get the Appear Time of a style section (seconds from scene start)
+   */
+  async getAppearTime(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Appear Time'))
+  }
+
+  /**
+   * Fill the Appear Time of a style section
+   */
+  async fillAppearTime(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Appear Time'), value)
+  }
+
+  /**
+   * Get the Exit Animation of a style section
+   */
+  async getExitAnimation(section: StyleSectionId): Promise<string> {
+    return await this.getSelectValue(section, 'Exit Animation')
+  }
+
+  /**
+   * Select the Exit Animation of a style section
+   */
+  async selectExitAnimation(section: StyleSectionId, value: string): Promise<void> {
+    await this.selectOption(section, 'Exit Animation', value)
+  }
+
+  /**
+   * Get the Exit Time of a style section (seconds from appear)
+   */
+  async getExitTime(section: StyleSectionId): Promise<string> {
+    return await this.getInputValue(this.input(section, 'Exit Time'))
+  }
+
+  /**
+   * Fill the Exit Time of a style section
+   */
+  async fillExitTime(section: StyleSectionId, value: string): Promise<void> {
+    await this.fillInput(this.input(section, 'Exit Time'), value)
+  }
+
+  // ==================== Fields ====================
+
+  private section(section: StyleSectionId): Locator {
+    return this.root.getByTestId(`${section}-style-section`)
+  }
+
+  private async isGroupVisible(section: StyleSectionId, label: string): Promise<boolean> {
+    return await this.section(section).getByText(label, { exact: true }).isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * A field of a style section by its label
+   */
+  private input(section: StyleSectionId, label: string, selector: string = 'input'): Locator {
+    return this.section(section).locator(`.ant-form-item:has-text("${label}") ${selector}`)
+  }
+
+  private async getInputValue(input: Locator): Promise<string> {
+    return (await input.inputValue()) || ''
+  }
+
+  private async fillInput(input: Locator, value: string): Promise<void> {
+    await input.fill(value)
+    await input.blur()
+  }
+
+  private async getSelectValue(section: StyleSectionId, label: string): Promise<string> {
+    return (await this.input(section, label, '.ant-select-selection-item').textContent()) || ''
+  }
+
+  private async selectOption(section: StyleSectionId, label: string, value: string): Promise<void> {
+    await this.input(section, label, '.ant-select').click()
+    await this.openSelectOptions.filter({ hasText: value }).click()
+  }
+}
+
+trackPageObjectSteps(StyleSettingsModal)
@@ -0,0 +1,63 @@
+import { Page, Locator } from '@playwright/test'
+import { trackPageObjectSteps } from '../../page-object-steps'
+
+/**
+ * The dropdown an Add Token button opens, listing the tokens to insert into the copy
+ *
+ * Ant Design renders it at the end of the body, so it is scoped to the open dropdown,
+ * not to the field whose button opened it
+ */
+export class TokenDropdown {
+  readonly page: Page
+
+  private readonly root: Locator
+  private readonly items: Locator
+
+  constructor(page: Page) {
+    this.page = page
+    this.root = page.locator('.ant-dropdown:not(.ant-dropdown-hidden)')
+    this.items = this.root.locator('.ant-dropdown-menu-item')
+  }
+
+  /**
+   * Check if the dropdown is visible
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.isVisible().catch(() => {
+      return false
+    })
+  }
+
+  /**
+   * Wait for the dropdown to be visible
+   */
+  async waitForVisible(): Promise<void> {
+    await this.root.waitFor({ state: 'visible', timeout: 5000 })
+  }
+
+  /**
+   * Get the labels of all tokens in the dropdown
+   */
+  async getItems(): Promise<string[]> {
+    await this.waitForVisible()
+    const count = await this.items.count()
+    const labels: string[] = []
+    for (let i = 0; i < count; i++) {
+      const text = await this.items.nth(i).textContent()
+      if (text) {
+        labels.push(text.trim())
+      }
+    }
+    return labels
+  }
+
+  /**
+   * Click a token by its label text
+   */
+  async clickItem(label: string): Promise<void> {
+    await this.waitForVisible()
+    await this.items.filter({ hasText: label }).click()
+  }
+}
+
+trackPageObjectSteps(TokenDropdown)
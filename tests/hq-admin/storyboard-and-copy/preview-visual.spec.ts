@@ -0,0 +1,94 @@
+import { test, requires, GenerationSimulator } from '../../fixtures'
+import { StoryboardAndCopyPage } from './page-objects/storyboard-and-copy.page'
+
+// Fixed copy, so the baselines don't depend on what the campaign was created with
+const VISUAL_COPY = {
+  headline: 'Summer Sale',
+  subHeadline: 'Up to 50% off',
+  bodyCopy: 'Everything in store, this weekend only.',
+  ctaCopy: 'Shop now',
+  legalCopy: 'Terms and conditions apply.',
+}
+
+/**
+ * Save the fixed copy and show a freshly generated preview in an orientation
+ */
+async function showPreview(
+  storyboardPage: StoryboardAndCopyPage,
+  generationSimulator: GenerationSimulator,
+  orientation: 'portrait' | 'landscape'
+): Promise<void> {
+  const { previewPanel } = storyboardPage
+
+  await test.step('Save the visual copy', async () => {
+    const form = await storyboardPage.readForm()
+    await storyboardPage.applyDraft({
+      ...form,
+      headline: { ...form.headline, default: VISUAL_COPY.headline },
+      subHeadline: { ...form.subHeadline, default: VISUAL_COPY.subHeadline },
+      bodyCopy: { ...form.bodyCopy, default: VISUAL_COPY.bodyCopy },
+      ctaCopy: { ...form.ctaCopy, default: VISUAL_COPY.ctaCopy },
+      legalCopy: VISUAL_COPY.legalCopy,
+    })
+    if (await storyboardPage.isSaveButtonEnabled()) {
+      await storyboardPage.clickSaveAndWait()
+    }
+  })
+
+  await test.step(`Generate the ${orientation} preview`, async () => {
+    await previewPanel.waitForActions()
+    if (orientation === 'landscape') {
+      await previewPanel.selectLandscape()
+    } else {
+      await previewPanel.selectPortrait()
+    }
+    await generationSimulator.simulate('preview', { state: 'completed' })
+    await storyboardPage.generatePreview()
+    await previewPanel.waitForText(VISUAL_COPY.headline)
+  })
+}
+
+/**
+ * Screenshots of the preview compared with baselines in tests/__screenshots__, per APP_ENV
+ *
+ * Every slide is compared. Update them after an intended change with pnpm test:visual:update,
+ * the report shows the expected, actual and diff images of a mismatch. A missing baseline fails
+ * on CI like a mismatch, record an environment's with the same command against that APP_ENV
+ */
+test.describe('Campaign Preview Visual', { tag: '@visual' }, () => {
+  for (const orientation of ['portrait', 'landscape'] as const) {
+    test(
+      `${orientation} preview should match its baseline`,
+      async ({ storyboardPage, generationSimulator }) => {
+        await showPreview(storyboardPage, generationSimulator, orientation)
+        await storyboardPage.previewPanel.verifySlideScreenshots(orientation)
+      }
+    )
+
+    test(
+      `${orientation} preview should show a font size and position changed in Style Settings`,
+      requires('styleSettings'),
+      async ({ storyboardPage, generationSimulator }) => {
+        const { previewPanel, styleSettingsModal } = storyboardPage
+        await showPreview(storyboardPage, generationSimulator, orientation)
+
+        await previewPanel.clickConfigureStyles()
+        await styleSettingsModal.waitForVisible()
+        const originalFontSize = await styleSettingsModal.getFontSize('headline')
+        const originalTop = await styleSettingsModal.getTop('headline')
+
+        await styleSettingsModal.fillFontSize('headline', '40px')
+        await styleSettingsModal.fillTop('headline', '120px')
+        await styleSettingsModal.clickSaveAndWait()
+        await previewPanel.verifySlideScreenshots(`${orientation}-headline-restyled`)
+
+        // Restore original values
+        await previewPanel.clickConfigureStyles()
+        await styleSettingsModal.waitForVisible()
+        await styleSettingsModal.fillFontSize('headline', originalFontSize)
+        await styleSettingsModal.fillTop('headline', originalTop)
+        await styleSettingsModal.clickSaveAndWait()
+      }
+    )
+  }
+})
@@ -0,0 +1,56 @@
+import { test } from '../../fixtures'
+import { hqAdminEndpoints } from '../api/hq-admin-responses'
+
+/**
+ * Limits on the HQ Admin API requests behind storyboard actions, to catch N+1 requests and
+ * refetch storms before they reach staging, and the requests each action has to make, so a
+ * request going to another URL doesn't pass the limits unnoticed
+ *
+ * A failure prints every request the action made, see api-request-recorder.ts
+ */
+test.describe('Storyboard API Requests', () => {
+  test('opening the Storyboard & Copy tab should load the campaign and storyboard once', async ({
+    storyboardPage,
+    campaignId,
+    apiRequests,
+  }) => {
+    const requests = await apiRequests.record('Opening the Storyboard & Copy tab', async () => {
+      await storyboardPage.navigateToPage()
+    })
+
+    requests.expectExactly(hqAdminEndpoints.getCampaign(campaignId), 1)
+    requests.expectExactly(hqAdminEndpoints.getStoryboard(campaignId), 1)
+    requests.expectNoDuplicates()
+  })
+
+  test('switching to Landscape should load its previews and styles once', async ({
+    storyboardPage,
+    campaignId,
+    apiRequests,
+  }) => {
+    const requests = await apiRequests.record('Switching to Landscape', async () => {
+      await storyboardPage.previewPanel.selectLandscape()
+    })
+
+    requests.expectExactly(hqAdminEndpoints.listPreviews(campaignId, 'landscape'), 1)
+    requests.expectExactly(hqAdminEndpoints.listStyles(campaignId, 'landscape'), 1)
+    requests.expectAtMost(hqAdminEndpoints.getStoryboard(campaignId), 0)
+    requests.expectNoDuplicates()
+  })
+
+  test('saving the storyboard should save once and refetch it at most once', async ({
+    storyboardPage,
+    campaignId,
+    apiRequests,
+  }) => {
+    await storyboardPage.copySection('headline').fillDefault(`E2E Request Headline ${Date.now()}`)
+
+    const requests = await apiRequests.record('Saving the storyboard', async () => {
+      await storyboardPage.clickSaveAndWait()
+    })
+
+    requests.expectExactly(hqAdminEndpoints.updateStoryboard(campaignId), 1)
+    requests.expectAtMost(hqAdminEndpoints.getStoryboard(campaignId), 1)
+    requests.expectNoDuplicates()
+  })
+})
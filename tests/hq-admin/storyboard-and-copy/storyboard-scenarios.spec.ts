@@ -0,0 +1,104 @@
+import path from 'path'
+import { test, expect } from '../../fixtures'
+import {
+  loadStoryboardScenarios,
+  scenarioDetails,
+  scenarioDraft,
+  scenarioSections,
+  TEST_ASSETS_DIR,
+} from './storyboard-scenarios'
+
+/**
+ * One test per file in scenarios/, named after the scenario, see storyboard-scenarios.ts for the format
+ */
+test.describe('Storyboard Scenarios', () => {
+  for (const scenario of loadStoryboardScenarios()) {
+    test(scenario.name, scenarioDetails(scenario), async ({ storyboardPage, generationSimulator }) => {
+      const { previewPanel } = storyboardPage
+
+      for (const asset of scenario.assets) {
+        await test.step(`Upload ${asset}`, async () => {
+          await storyboardPage.assetUploader.upload(path.join(TEST_ASSETS_DIR, asset))
+          await storyboardPage.assetUploader.waitForUploadComplete()
+        })
+      }
+
+      await test.step('Fill in the copy', async () => {
+        const draft = scenarioDraft(scenario, await storyboardPage.readForm())
+        await storyboardPage.applyDraft(draft)
+        await storyboardPage.verifyForm(draft)
+      })
+
+      for (const [id, section] of scenarioSections(scenario)) {
+        for (const { field, token } of section.tokens) {
+          const target = field === 'default' ? 'default copy' : `variant ${field + 1}`
+          await test.step(`Insert ${token} into the ${target} of ${id}`, async () => {
+            const copySection = storyboardPage.copySection(id)
+            if (field === 'default') {
+              await copySection.clickAddTokenForDefault()
+            } else {
+              await copySection.clickAddTokenForVariant(field)
+            }
+            await storyboardPage.tokenDropdown.clickItem(token)
+          })
+        }
+      }
+
+      const saveEnabled = scenario.expected.saveButton === 'enabled'
+      expect(await storyboardPage.isSaveButtonEnabled(), `Save button ${scenario.expected.saveButton}`).toBe(
+        saveEnabled
+      )
+
+      if (saveEnabled) {
+        await test.step('Save and reload', async () => {
+          const saved = await storyboardPage.readForm()
+          await storyboardPage.clickSaveAndWait()
+          expect(await storyboardPage.navigateToPage()).toBe(true)
+          await storyboardPage.verifyForm(saved)
+        })
+      }
+
+      // The reload after saving shows the portrait preview again
+      await test.step(`Show the ${scenario.orientation} preview`, async () => {
+        await previewPanel.waitForActions()
+        if (scenario.orientation === 'landscape') {
+          await previewPanel.selectLandscape()
+        } else {
+          await previewPanel.selectPortrait()
+        }
+      })
+
+      const { preview } = scenario.expected
+      if (!preview) {
+        return
+      }
+      await test.step('Generate the preview', async () => {
+        await generationSimulator.simulate('preview', { state: 'completed' })
+        await storyboardPage.generatePreview()
+      })
+
+      if (preview.shape) {
+        const { width, height } = await previewPanel.getContainerDimensions()
+        if (preview.shape === 'portrait') {
+          expect(height, 'Preview taller than wide').toBeGreaterThan(width)
+        } else {
+          expect(width, 'Preview wider than tall').toBeGreaterThan(height)
+        }
+      }
+
+      if (preview.showsCopy) {
+        const form = await storyboardPage.readForm()
+        const copies = [
+          form.headline.default,
+          form.subHeadline.default,
+          form.bodyCopy.default,
+          form.ctaCopy.default,
+          form.legalCopy,
+        ]
+        for (const copy of copies.filter(Boolean)) {
+          await previewPanel.waitForText(copy)
+        }
+      }
+    })
+  }
+})
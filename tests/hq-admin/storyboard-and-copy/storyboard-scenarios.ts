@@ -0,0 +1,192 @@
+import fs from 'fs'
+import path from 'path'
+import { TestDetails } from '@playwright/test'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { fromZodError } from 'zod-validation-error'
+import { capabilities, Capability } from '../../../config'
+import { requires } from '../../fixtures'
+import {
+  CopySectionId,
+  copySectionField,
+  copySectionIds,
+  copySectionVariantCapability,
+} from './page-objects/copy-section.component'
+import { StoryboardDraft } from './page-objects/storyboard-draft'
+
+/**
+ * Files the scenarios are read from, one scenario each
+ */
+export const SCENARIOS_DIR = path.join(__dirname, 'scenarios')
+
+/**
+ * Files a scenario can upload, by name
+ */
+export const TEST_ASSETS_DIR = path.join(__dirname, 'test-assets')
+
+const SCENARIO_EXTENSIONS = ['.json', '.yaml', '.yml']
+
+const SCENARIO_ANNOTATION = 'scenario'
+
+const tokenSchema = z.object({
+  // The default copy, or a variant by its index (0-based)
+  field: z.union([z.literal('default'), z.number().int().min(0)]),
+  // Label of the token in the dropdown, e.g. "First Name"
+  token: z.string().min(1),
+})
+
+const sectionSchema = z
+  .object({
+    // Left as is when missing
+    default: z.string().optional(),
+    // Exactly these variants, added or deleted to match, left as is when missing
+    variants: z.array(z.string()).optional(),
+    // Inserted after the copy and variants are filled
+    tokens: z.array(tokenSchema).default([]),
+  })
+  .strict()
+
+const scenarioSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    // On top of the ones the scenario's variants and tokens need
+    requires: z.array(z.enum(capabilities)).default([]),
+    orientation: z.enum(['portrait', 'landscape']).default('portrait'),
+    copy: z.partialRecord(z.enum(copySectionIds as [CopySectionId, ...CopySectionId[]]), sectionSchema).default({}),
+    legalCopy: z.string().optional(),
+    // File names in test-assets/, uploaded before the copy is filled
+    assets: z.array(z.string()).default([]),
+    expected: z
+      .object({
+        // After filling everything in, if enabled the scenario saves and reloads
+        saveButton: z.enum(['enabled', 'disabled']),
+        // Generated once the scenario is saved, left alone when missing
+        preview: z
+          .object({
+            // Whether the preview is taller than wide or wider than tall
+            shape: z.enum(['portrait', 'landscape']).optional(),
+            // Whether the default copy of each section and the legal copy show in the preview
+            showsCopy: z.boolean().default(false),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict(),
+  })
+  .strict()
+
+export type StoryboardScenario = z.infer<typeof scenarioSchema> & {
+  // Path from the scenarios directory, e.g. emoji-cta.json
+  file: string
+}
+
+export type ScenarioSection = z.infer<typeof sectionSchema>
+
+/**
+ * Read every scenario file of a directory, sorted by file name
+ *
+ * Throws naming the file when one doesn't parse or doesn't match the scenario schema,
+ * uploads a file test-assets/ doesn't have, or reuses another scenario's name
+ */
+export function loadStoryboardScenarios(dir: string = SCENARIOS_DIR): StoryboardScenario[] {
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => {
+      return SCENARIO_EXTENSIONS.includes(path.extname(file))
+    })
+    .sort()
+
+  const scenarios = files.map((file) => {
+    return loadScenario(dir, file)
+  })
+
+  const fileByName = new Map<string, string>()
+  for (const scenario of scenarios) {
+    const other = fileByName.get(scenario.name)
+    if (other) {
+      throw new Error(`Scenarios ${other} and ${scenario.file} are both named "${scenario.name}"`)
+    }
+    fileByName.set(scenario.name, scenario.file)
+  }
+  return scenarios
+}
+
+function loadScenario(dir: string, file: string): StoryboardScenario {
+  const content = fs.readFileSync(path.join(dir, file), 'utf-8')
+  let data: unknown
+  try {
+    data = path.extname(file) === '.json' ? JSON.parse(content) : parseYaml(content)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Scenario ${file} is not valid ${path.extname(file).slice(1).toUpperCase()}: ${reason}`)
+  }
+
+  const result = scenarioSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error(`Scenario ${file} is invalid: ${fromZodError(result.error).message}`)
+  }
+
+  for (const asset of result.data.assets) {
+    if (path.basename(asset) !== asset || !fs.existsSync(path.join(TEST_ASSETS_DIR, asset))) {
+      throw new Error(`Scenario ${file} uploads ${asset}, which is not a file in test-assets/`)
+    }
+  }
+  return { ...result.data, file }
+}
+
+/**
+ * The sections a scenario fills in, with what it fills them with
+ */
+export function scenarioSections(scenario: StoryboardScenario): [CopySectionId, ScenarioSection][] {
+  return copySectionIds.flatMap((id): [CopySectionId, ScenarioSection][] => {
+    const section = scenario.copy[id]
+    return section ? [[id, section]] : []
+  })
+}
+
+/**
+ * Capabilities a scenario needs, the variant buttons of the sections it sets variants of
+ * and Add Token if it inserts tokens
+ */
+export function scenarioCapabilities(scenario: StoryboardScenario): Capability[] {
+  const needed = new Set<Capability>(scenario.requires)
+  for (const [id, section] of scenarioSections(scenario)) {
+    if (section.variants) {
+      needed.add(copySectionVariantCapability(id))
+    }
+    if (section.tokens.length > 0) {
+      needed.add('copyTokens')
+    }
+  }
+  return [...needed]
+}
+
+/**
+ * Test details of a scenario: its capabilities, and the file it came from for the report
+ */
+export function scenarioDetails(scenario: StoryboardScenario): TestDetails {
+  const { annotation = [] } = requires(...scenarioCapabilities(scenario))
+  return {
+    annotation: [
+      ...(Array.isArray(annotation) ? annotation : [annotation]),
+      { type: SCENARIO_ANNOTATION, description: scenario.file },
+    ],
+  }
+}
+
+/**
+ * The draft the form should hold once a scenario filled it in, before inserting tokens
+ */
+export function scenarioDraft(scenario: StoryboardScenario, current: StoryboardDraft): StoryboardDraft {
+  const draft: StoryboardDraft = { ...current }
+  for (const [id, section] of scenarioSections(scenario)) {
+    const field = copySectionField(id)
+    draft[field] = {
+      default: section.default ?? current[field].default,
+      variants: section.variants ?? current[field].variants,
+    }
+  }
+  draft.legalCopy = scenario.legalCopy ?? current.legalCopy
+  return draft
+}
@@ -0,0 +1,199 @@
+import { Browser, TestInfo } from '@playwright/test'
+import { apiChecked } from '../../config'
+import { env } from '../../env'
+import { HqAdminApiClient, HqAdminApiError } from './api/hq-admin-api.client'
+import { Storyboard } from './api/schemas'
+import { deleteCampaignThroughUi, withHqAdminPage } from './campaign-provisioning'
+
+export type TestDataKind = 'campaign' | 'asset' | 'storyboard'
+
+/**
+ * What cleanup did with an entry, 'gone' when the test already removed it itself
+ */
+export type TestDataOutcome = 'pending' | 'deleted' | 'restored' | 'gone' | 'skipped' | 'failed'
+
+export type TestDataEntry = {
+  kind: TestDataKind
+  campaignId?: string
+  name?: string
+  runTag: string
+  workerIndex: number
+  testId: string
+  recordedAt: string
+  outcome: TestDataOutcome
+  error?: string
+}
+
+/**
+ * Records the campaigns, asset uploads and storyboard edits of one test,
+ * and undoes them once the test is over, whether it passed or not
+ *
+ * Campaigns are deleted by name, storyboards are put back to how they were
+ * before the test first touched them, which also detaches uploaded assets
+ *
+ * Until the API was checked against APP_ENV campaigns are deleted through the campaigns table,
+ * and storyboards are left as they are, see apiChecked in config.ts
+ */
+export class TestDataRegistry {
+  readonly entries: TestDataEntry[] = []
+  private readonly hqAdminApi: HqAdminApiClient
+  private readonly testInfo: TestInfo
+  private readonly browser: Browser
+  private readonly snapshots = new Map<string, Storyboard>()
+
+  constructor(hqAdminApi: HqAdminApiClient, testInfo: TestInfo, browser: Browser) {
+    this.hqAdminApi = hqAdminApi
+    this.testInfo = testInfo
+    this.browser = browser
+  }
+
+  /**
+   * Record a campaign the test is about to create
+   */
+  recordCampaign(name: string): void {
+    this.record({ kind: 'campaign', name })
+  }
+
+  /**
+   * Record an asset upload, call before uploading
+   */
+  async recordAssetUpload(campaignId: string, fileName: string): Promise<void> {
+    await this.snapshotStoryboard(campaignId)
+    this.record({ kind: 'asset', campaignId, name: fileName })
+  }
+
+  /**
+   * Record a change to a campaign's storyboard & copy, call before saving
+   */
+  async recordStoryboardMutation(campaignId: string): Promise<void> {
+    await this.snapshotStoryboard(campaignId)
+    this.record({ kind: 'storyboard', campaignId })
+  }
+
+  /**
+   * Undo everything recorded, storyboards first since their campaigns may be deleted after
+   */
+  async cleanup(): Promise<void> {
+    // Replays have no backend to clean up
+    if (env.NETWORK_MODE === 'replay') {
+      for (const entry of this.entries) {
+        entry.outcome = 'skipped'
+      }
+      return
+    }
+
+    if (!apiChecked) {
+      for (const entry of this.entries) {
+        if (entry.kind !== 'campaign') {
+          entry.outcome = 'skipped'
+        }
+      }
+    }
+
+    for (const [campaignId, snapshot] of this.snapshots) {
+      await this.settle(
+        this.entries.filter((entry) => {
+          return entry.kind !== 'campaign' && entry.campaignId === campaignId
+        }),
+        async () => {
+          await this.hqAdminApi.updateStoryboard(campaignId, {
+            headline: snapshot.headline,
+            subHeadline: snapshot.subHeadline,
+            bodyCopy: snapshot.bodyCopy,
+            ctaCopy: snapshot.ctaCopy,
+            legalCopy: snapshot.legalCopy,
+            assetIds: snapshot.assets.map((asset) => {
+              return asset.id
+            }),
+          })
+          return 'restored'
+        }
+      )
+    }
+
+    for (const entry of this.entries) {
+      if (entry.kind !== 'campaign' || !entry.name) {
+        continue
+      }
+      const name = entry.name
+      await this.settle([entry], async () => {
+        if (!apiChecked) {
+          const deleted = await withHqAdminPage(this.browser, (page) => {
+            return deleteCampaignThroughUi(page, name)
+          })
+          return deleted ? 'deleted' : 'gone'
+        }
+        const { items } = await this.hqAdminApi.listCampaigns({ name })
+        const created = items.filter((campaign) => {
+          return campaign.name === name
+        })
+        for (const campaign of created) {
+          await this.hqAdminApi.deleteCampaign(campaign.id)
+        }
+        return created.length > 0 ? 'deleted' : 'gone'
+      })
+    }
+  }
+
+  /**
+   * Everything recorded and what cleanup did with it, to trace leaks back to a test
+   */
+  toManifest(): object {
+    return {
+      runTag: env.TEST_RUN_TAG,
+      workerIndex: this.testInfo.workerIndex,
+      testId: this.testInfo.testId,
+      title: this.testInfo.titlePath.join(' › '),
+      entries: this.entries,
+    }
+  }
+
+  private record(entry: Pick<TestDataEntry, 'kind' | 'campaignId' | 'name'>): void {
+    this.entries.push({
+      ...entry,
+      runTag: env.TEST_RUN_TAG,
+      workerIndex: this.testInfo.workerIndex,
+      testId: this.testInfo.testId,
+      recordedAt: new Date().toISOString(),
+      outcome: 'pending',
+    })
+  }
+
+  /**
+   * Keep the storyboard as it was before the test's first change to it
+   */
+  private async snapshotStoryboard(campaignId: string): Promise<void> {
+    if (env.NETWORK_MODE === 'replay' || !apiChecked || this.snapshots.has(campaignId)) {
+      return
+    }
+    this.snapshots.set(campaignId, await this.hqAdminApi.getStoryboard(campaignId))
+  }
+
+  /**
+   * Run one undo step and mark its entries, a failure is recorded rather than thrown
+   * so the remaining steps still run
+   */
+  private async settle(
+    entries: TestDataEntry[],
+    undo: () => Promise<TestDataOutcome>
+  ): Promise<void> {
+    let outcome: TestDataOutcome
+    let error: string | undefined
+    try {
+      outcome = await undo()
+    } catch (caught) {
+      // The test deleted the campaign itself
+      if (caught instanceof HqAdminApiError && caught.status === 404) {
+        outcome = 'gone'
+      } else {
+        outcome = 'failed'
+        error = caught instanceof Error ? caught.message : String(caught)
+      }
+    }
+
+    for (const entry of entries) {
+      entry.outcome = outcome
+      entry.error = error
+    }
+  }
+}